@@ -0,0 +1,165 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import { getFogLevel } from "../src/fog-detector.js";
+import type { LocationConfig } from "../src/types.js";
+import type { GoldenFrame } from "../src/evaluation.js";
+
+/**
+ * Regenerates src/__tests__/fixtures/golden/ from the real landmark crops in
+ * templates/. Each frame pastes the crops back at their configured regions
+ * and hides them behind fog of a known density, so the ground truth is
+ * exact. The frames are marked `synthetic` in the manifest: the crops are
+ * the templates themselves, so scoring them mostly checks the detector
+ * against its own references. Labeled captures from the cameras are still
+ * needed to measure real accuracy; add them alongside as they're collected.
+ *
+ *   npx tsx scripts/build-golden-fixtures.ts
+ */
+
+const PROJECT_ROOT = path.resolve(import.meta.dirname, "..");
+const GOLDEN_DIR = path.join(PROJECT_ROOT, "src", "__tests__", "fixtures", "golden");
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FOG = { r: 206, g: 210, b: 214 };
+
+// Fog density in front of each landmark: ≤ 0.3 still reads as visible,
+// ≥ 0.93 hides it; nothing in between, so the labels are unambiguous
+const VISIBLE_MAX = 0.3;
+
+interface Scenario {
+  name: string;
+  brightness?: number; // Overall light level, 1 = as captured
+  fog: Record<string, number>; // Landmark → fog density 0..1 (default 0)
+  haze?: number; // Fog over the rest of the frame
+}
+
+const SCENARIOS: Record<string, Scenario[]> = {
+  "salesforce-north": [
+    { name: "clear", fog: {} },
+    { name: "clear-dim", brightness: 0.65, fog: {} },
+    { name: "haze", haze: 0.25, fog: { "gg-bridge-south-tower": 0.25, "marin-headlands": 0.3, "palace-of-fine-arts": 0.15 } },
+    { name: "marine-layer", haze: 0.4, fog: { "gg-bridge-south-tower": 0.94, "marin-headlands": 0.95, "palace-of-fine-arts": 0.2 } },
+    { name: "headlands-only", haze: 0.2, fog: { "marin-headlands": 0.95 } },
+    { name: "heavy", haze: 0.85, fog: { "gg-bridge-south-tower": 0.96, "marin-headlands": 0.97, "palace-of-fine-arts": 0.95 } },
+  ],
+  "markhopkins-northeast": [
+    { name: "clear", fog: {} },
+    { name: "clear-dim", brightness: 0.65, fog: {} },
+    { name: "haze", haze: 0.25, fog: { "transamerica-pyramid": 0.15, "treasure-island": 0.3 } },
+    { name: "bay-fog", haze: 0.5, fog: { "transamerica-pyramid": 0.2, "treasure-island": 0.95 } },
+    { name: "heavy", haze: 0.85, fog: { "transamerica-pyramid": 0.95, "treasure-island": 0.97 } },
+  ],
+};
+
+/** Deterministic noise so regenerating gives identical fixtures. */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Sky fading into water, washed toward fog by the frame's haze. */
+function background(haze: number): Buffer {
+  const data = Buffer.alloc(WIDTH * HEIGHT * 3);
+  for (let y = 0; y < HEIGHT; y++) {
+    const t = y / HEIGHT;
+    const base = t < 0.45
+      ? { r: 150 + 40 * t, g: 180 + 30 * t, b: 220 }
+      : { r: 60, g: 80 + 20 * t, b: 100 + 20 * t };
+    const r = base.r * (1 - haze) + FOG.r * haze;
+    const g = base.g * (1 - haze) + FOG.g * haze;
+    const b = base.b * (1 - haze) + FOG.b * haze;
+    for (let x = 0; x < WIDTH; x++) {
+      const i = (y * WIDTH + x) * 3;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+  return data;
+}
+
+/** A landmark crop seen through fog, with a little sensor noise. */
+async function foggedCrop(
+  templatePath: string,
+  density: number,
+  random: () => number
+): Promise<{ data: Buffer; width: number; height: number }> {
+  let image = sharp(path.join(PROJECT_ROOT, templatePath)).removeAlpha();
+  if (density > 0) image = image.blur(0.3 + density * 4);
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  const fog = [FOG.r, FOG.g, FOG.b];
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i] * (1 - density) + fog[i % 3] * density;
+    data[i] = Math.max(0, Math.min(255, value + (random() - 0.5) * 8));
+  }
+  return { data, width: info.width, height: info.height };
+}
+
+async function main(): Promise<void> {
+  await fs.mkdir(GOLDEN_DIR, { recursive: true });
+  const frames: GoldenFrame[] = [];
+  const random = mulberry32(2026);
+
+  for (const [location, scenarios] of Object.entries(SCENARIOS)) {
+    const config: LocationConfig = JSON.parse(
+      await fs.readFile(path.join(PROJECT_ROOT, "data", "locations", `${location}.json`), "utf-8")
+    );
+
+    for (const scenario of scenarios) {
+      const composites: sharp.OverlayOptions[] = [];
+      const landmarks: Record<string, boolean> = {};
+
+      for (const landmark of config.landmarks) {
+        const density = scenario.fog[landmark.name] ?? 0;
+        const crop = await foggedCrop(landmark.templatePath, density, random);
+        composites.push({
+          input: crop.data,
+          raw: { width: crop.width, height: crop.height, channels: 3 },
+          left: landmark.region.x,
+          top: landmark.region.y,
+        });
+        landmarks[landmark.name] = density <= VISIBLE_MAX;
+      }
+
+      // sharp composites last, so dim the light in a second pass
+      const scene = await sharp(background(scenario.haze ?? 0), {
+        raw: { width: WIDTH, height: HEIGHT, channels: 3 },
+      })
+        .composite(composites)
+        .png()
+        .toBuffer();
+      const file = `${location}-${scenario.name}.jpg`;
+      await sharp(scene)
+        .linear(scenario.brightness ?? 1, 0)
+        .jpeg({ quality: 85 })
+        .toFile(path.join(GOLDEN_DIR, file));
+
+      const visible = Object.values(landmarks).filter(Boolean).length;
+      frames.push({
+        file,
+        location,
+        lighting: "day",
+        fogLevel: getFogLevel((visible / config.landmarks.length) * 100),
+        landmarks,
+        synthetic: true,
+      });
+      console.log(`  ✓ ${file}`);
+    }
+  }
+
+  await fs.writeFile(
+    path.join(GOLDEN_DIR, "manifest.json"),
+    JSON.stringify({ frames }, null, 2) + "\n"
+  );
+  console.log(`\n✓ Wrote ${frames.length} frames to ${path.relative(PROJECT_ROOT, GOLDEN_DIR)}`);
+}
+
+main().catch((error) => {
+  console.error("Failed to build golden fixtures:", error);
+  process.exit(1);
+});
@@ -15,19 +15,19 @@ async function test() {
     await fs.readFile("data/locations/markhopkins-northeast.json", "utf-8")
   );
 
-  console.log("=== SALESFORCE NORTH (nighttime vs daytime template) ===\n");
+  console.log("=== SALESFORCE NORTH (nighttime frame) ===\n");
   for (const landmark of sfnConfig.landmarks) {
-    const result = await checkLandmarkVisibility(sfnCurrent, landmark);
-    console.log(`${landmark.name}:`);
+    const result = await checkLandmarkVisibility(sfnCurrent, landmark, "night");
+    console.log(`${landmark.name} (${result.lighting} template):`);
     console.log(`  Similarity: ${result.similarity} (threshold: ${landmark.threshold})`);
     console.log(`  Visible: ${result.visible ? "✅ YES" : "❌ NO"}`);
     console.log();
   }
 
-  console.log("\n=== MARK HOPKINS NORTHEAST (nighttime vs daytime template) ===\n");
+  console.log("\n=== MARK HOPKINS NORTHEAST (nighttime frame) ===\n");
   for (const landmark of mhneConfig.landmarks) {
-    const result = await checkLandmarkVisibility(mhneCurrent, landmark);
-    console.log(`${landmark.name}:`);
+    const result = await checkLandmarkVisibility(mhneCurrent, landmark, "night");
+    console.log(`${landmark.name} (${result.lighting} template):`);
     console.log(`  Similarity: ${result.similarity} (threshold: ${landmark.threshold})`);
     console.log(`  Visible: ${result.visible ? "✅ YES" : "❌ NO"}`);
     console.log();
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { cropGray, findBestAlignment, stretchContrast } from "../alignment.js";
+import type { GrayImage } from "../similarity.js";
+
+/**
+ * A 120x80 textured scene with a bright block, as seen by a camera that
+ * has drifted so the block's top-left corner lands at (x, y).
+ */
+function frameWithBlock(x: number, y: number): GrayImage {
+  const width = 120;
+  const height = 80;
+  const data = new Uint8Array(width * height);
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const inBlock = px >= x && px < x + 15 && py >= y && py < y + 25;
+      const sceneX = px - x;
+      const sceneY = py - y;
+      data[py * width + px] = inBlock
+        ? 230
+        : 30 + ((((sceneX * 7 + sceneY * 3) % 40) + 40) % 40);
+    }
+  }
+  return { data, width, height };
+}
+
+const region = { x: 40, y: 20, width: 40, height: 40 };
+
+describe("findBestAlignment", () => {
+  const template = stretchContrast(
+    cropGray(frameWithBlock(50, 30), region.x, region.y, region.width, region.height)
+  );
+
+  it("reports no offset when the camera has not moved", () => {
+    const result = findBestAlignment(frameWithBlock(50, 30), region, template, "ncc", {
+      radius: 6,
+    });
+    expect(result.offset).toEqual({ x: 0, y: 0 });
+    expect(result.similarity).toBeCloseTo(1, 5);
+  });
+
+  it("finds the landmark after the camera drifts", () => {
+    const result = findBestAlignment(frameWithBlock(53, 28), region, template, "ncc", {
+      radius: 6,
+      step: 2,
+    });
+    expect(result.offset).toEqual({ x: 3, y: -2 });
+    expect(result.similarity).toBeCloseTo(1, 5);
+  });
+
+  it("does not search beyond the configured radius", () => {
+    const result = findBestAlignment(frameWithBlock(60, 30), region, template, "ncc", {
+      radius: 4,
+    });
+    expect(Math.abs(result.offset.x)).toBeLessThanOrEqual(4);
+    expect(result.similarity).toBeLessThan(0.9);
+  });
+
+  it("skips positions outside the frame", () => {
+    const edgeRegion = { x: 0, y: 0, width: 40, height: 40 };
+    const edgeTemplate = cropGray(frameWithBlock(10, 5), 0, 0, 40, 40);
+    const result = findBestAlignment(frameWithBlock(10, 5), edgeRegion, edgeTemplate, "ssim", {
+      radius: 5,
+    });
+    expect(result.offset.x).toBeGreaterThanOrEqual(0);
+    expect(result.offset.y).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe("stretchContrast", () => {
+  it("stretches a narrow range to the full 0-255 range", () => {
+    const image: GrayImage = {
+      data: Uint8Array.from({ length: 100 }, (_, i) => 100 + (i % 51)),
+      width: 10,
+      height: 10,
+    };
+    const stretched = stretchContrast(image);
+    expect(Math.min(...stretched.data)).toBe(0);
+    expect(Math.max(...stretched.data)).toBe(255);
+  });
+
+  it("leaves featureless images unchanged", () => {
+    const image: GrayImage = { data: new Uint8Array(100).fill(128), width: 10, height: 10 };
+    expect(stretchContrast(image).data).toEqual(image.data);
+  });
+});
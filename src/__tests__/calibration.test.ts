@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createSolidPng, createImageWithRegion } from "./helpers.js";
+import {
+  calibrateLocation,
+  confusionMatrix,
+  findBestThreshold,
+  writeThresholds,
+  type LabeledScore,
+} from "../calibration.js";
+import type { LocationConfig } from "../types.js";
+
+describe("confusionMatrix", () => {
+  it("counts visible predictions against clear and foggy labels", () => {
+    const scores: LabeledScore[] = [
+      { similarity: 0.9, label: "clear" },
+      { similarity: 0.4, label: "clear" },
+      { similarity: 0.6, label: "foggy" },
+      { similarity: 0.1, label: "foggy" },
+    ];
+    expect(confusionMatrix(scores, 0.5)).toEqual({
+      truePositive: 1,
+      falseNegative: 1,
+      falsePositive: 1,
+      trueNegative: 1,
+    });
+  });
+});
+
+describe("findBestThreshold", () => {
+  it("splits separable scores midway between the classes", () => {
+    const result = findBestThreshold([
+      { similarity: 0.2, label: "foggy" },
+      { similarity: 0.3, label: "foggy" },
+      { similarity: 0.8, label: "clear" },
+      { similarity: 0.9, label: "clear" },
+    ]);
+    expect(result.threshold).toBe(0.55);
+    expect(result.accuracy).toBe(1);
+  });
+
+  it("maximizes accuracy when the classes overlap", () => {
+    const result = findBestThreshold([
+      { similarity: 0.2, label: "foggy" },
+      { similarity: 0.5, label: "foggy" },
+      { similarity: 0.6, label: "clear" },
+      { similarity: 0.7, label: "foggy" },
+      { similarity: 0.8, label: "clear" },
+      { similarity: 0.9, label: "clear" },
+    ]);
+    expect(result.accuracy).toBeCloseTo(5 / 6);
+    expect(result.matrix.truePositive + result.matrix.trueNegative).toBe(5);
+  });
+
+  it("rejects an empty sample", () => {
+    expect(() => findBestThreshold([])).toThrow("No labeled scores");
+  });
+});
+
+describe("calibrateLocation", () => {
+  const region = { x: 20, y: 20, width: 60, height: 60 };
+  let tmpDir: string;
+  let config: LocationConfig;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-calibrate-"));
+    const templatePath = path.join(tmpDir, "landmark.png");
+    await fs.writeFile(templatePath, await createSolidPng(60, 60, { r: 255, g: 0, b: 0 }));
+
+    const snapshot = (color: { r: number; g: number; b: number }) =>
+      createImageWithRegion(200, 200, region, { r: 100, g: 100, b: 100 }, color);
+    await fs.writeFile(path.join(tmpDir, "clear.png"), await snapshot({ r: 255, g: 0, b: 0 }));
+    await fs.writeFile(path.join(tmpDir, "foggy.png"), await snapshot({ r: 0, g: 0, b: 255 }));
+    await fs.writeFile(
+      path.join(tmpDir, "labels.json"),
+      JSON.stringify([
+        { file: "clear.png", landmarks: { "red-landmark": "clear" } },
+        { file: "foggy.png", landmarks: { "red-landmark": "foggy" } },
+      ])
+    );
+
+    config = {
+      location: "calibration-test",
+      region: "test-region",
+      source: { type: "image", url: "https://example.com/cam.jpg" },
+      // Deliberately too strict: the clear snapshot falls below it
+      landmarks: [{ name: "red-landmark", templatePath, region, threshold: 1.1 }],
+    };
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("recommends a threshold that separates the labeled snapshots", async () => {
+    const [rec] = await calibrateLocation(config, tmpDir);
+
+    expect(rec.landmark).toBe("red-landmark");
+    expect(rec.lighting).toBe("day");
+    expect(rec.samples).toBe(2);
+    expect(rec.currentAccuracy).toBe(0.5);
+    expect(rec.accuracy).toBe(1);
+    expect(rec.threshold).toBeLessThan(1.1);
+  });
+
+  it("writes recommended thresholds into the location config", async () => {
+    const locationsDir = path.resolve(import.meta.dirname, "..", "..", "data", "locations");
+    const configPath = path.join(locationsDir, "calibration-test.json");
+    await fs.writeFile(configPath, JSON.stringify(config));
+
+    try {
+      const recommendations = await calibrateLocation(config, tmpDir);
+      await writeThresholds("calibration-test", recommendations);
+
+      const saved: LocationConfig = JSON.parse(await fs.readFile(configPath, "utf-8"));
+      expect(saved.landmarks[0].threshold).toBe(recommendations[0].threshold);
+    } finally {
+      await fs.rm(configPath, { force: true });
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+  loadCameraHealth,
+  updateCameraHealth,
+  writeCameraHealth,
+} from "../camera-health.js";
+import { createReading } from "./helpers.js";
+import type { CameraInfo, VisibilityResult } from "../types.js";
+
+const catalog: CameraInfo[] = ["north", "east"].map((id) => ({
+  id,
+  name: `Camera ${id}`,
+  source: { type: "hls", url: `https://example.com/${id}.m3u8` },
+  direction: id,
+  landmarks_visible: [],
+  resolution: "1280x720",
+}));
+
+const reading = (timestamp: string, overrides: Partial<VisibilityResult> = {}) =>
+  createReading({ location: "north-cam", camera: "north", timestamp, sunElevation: 40, ...overrides });
+
+const failure = (timestamp: string, overrides: Partial<VisibilityResult> = {}) =>
+  reading(timestamp, {
+    status: "error",
+    statusReason: "Fetch failed: Timed out after 30000ms",
+    errorClass: "FetchTimeoutError",
+    visibilityScore: null,
+    fogLevel: null,
+    ...overrides,
+  });
+
+describe("updateCameraHealth", () => {
+  it("counts a failure streak and keeps the last success and error", () => {
+    let health = updateCameraHealth([], [reading("2026-06-21T18:00:00.000Z")], catalog);
+    health = updateCameraHealth(health, [failure("2026-06-21T19:00:00.000Z")], catalog);
+    health = updateCameraHealth(health, [failure("2026-06-21T20:00:00.000Z")], catalog);
+
+    expect(health[0]).toEqual({
+      camera: "north",
+      name: "Camera north",
+      status: "down",
+      locations: ["north-cam"],
+      lastChecked: "2026-06-21T20:00:00.000Z",
+      lastSuccess: "2026-06-21T18:00:00.000Z",
+      failureStreak: 2,
+      lastError: {
+        errorClass: "FetchTimeoutError",
+        message: "Fetch failed: Timed out after 30000ms",
+        timestamp: "2026-06-21T20:00:00.000Z",
+      },
+    });
+
+    // Recovery resets the streak but remembers what went wrong
+    health = updateCameraHealth(health, [reading("2026-06-21T21:00:00.000Z")], catalog);
+    expect(health[0]).toMatchObject({
+      status: "up",
+      failureStreak: 0,
+      lastSuccess: "2026-06-21T21:00:00.000Z",
+      lastError: { errorClass: "FetchTimeoutError" },
+    });
+  });
+
+  it("treats dark readings as up and any usable location as up", () => {
+    const health = updateCameraHealth(
+      [],
+      [
+        reading("2026-06-21T05:00:00.000Z", { status: "indeterminate", visibilityScore: null }),
+        failure("2026-06-21T05:00:00.000Z", { location: "north-wide", errorClass: "FrameRejected" }),
+      ],
+      catalog
+    );
+
+    expect(health[0]).toMatchObject({
+      status: "up",
+      locations: ["north-cam", "north-wide"],
+      failureStreak: 0,
+    });
+    expect(health[0].lastError).toBeUndefined();
+  });
+
+  it("lists unconfigured catalog cameras and keys others by location", () => {
+    const health = updateCameraHealth(
+      [],
+      [reading("2026-06-21T20:00:00.000Z", { location: "berkeley", camera: undefined })],
+      catalog
+    );
+
+    expect(health.map((h) => [h.camera, h.status])).toEqual([
+      ["north", "unconfigured"],
+      ["east", "unconfigured"],
+      ["berkeley", "up"],
+    ]);
+  });
+
+  it("keeps the previous record for cameras not checked this run", () => {
+    const before = updateCameraHealth([], [failure("2026-06-21T19:00:00.000Z")], catalog);
+    const after = updateCameraHealth(before, [], catalog);
+    expect(after[0]).toEqual(before[0]);
+  });
+});
+
+describe("camera health files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "camera-health-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes one endpoint per camera plus an index, and reads the index back", async () => {
+    const health = updateCameraHealth([], [failure("2026-06-21T19:00:00.000Z")], catalog);
+    await writeCameraHealth(dir, health);
+
+    expect((await fs.readdir(dir)).sort()).toEqual(["east", "index", "north"]);
+    const north = JSON.parse(await fs.readFile(path.join(dir, "north"), "utf-8"));
+    expect(north.failureStreak).toBe(1);
+    expect(await loadCameraHealth(dir)).toEqual(health);
+    expect(await loadCameraHealth(path.join(dir, "missing"))).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { cameraCoverage, resolveLocationCamera } from "../cameras.js";
+import type { CameraInfo } from "../types.js";
+
+const camera = (id: string): CameraInfo => ({
+  id,
+  name: id,
+  source: { type: "hls", url: `https://example.com/${id}.m3u8` },
+  direction: "north",
+  landmarks_visible: [],
+  resolution: "1280x720",
+});
+
+describe("resolveLocationCamera", () => {
+  it("takes the source from the catalog for a camera ID", async () => {
+    const { source, camera } = await resolveLocationCamera({
+      location: "north",
+      camera: "salesforce-north",
+    });
+    expect(camera?.id).toBe("salesforce-north");
+    expect(source).toBe(camera?.source);
+  });
+
+  it("matches a direct source to the catalog by URL", async () => {
+    const { source: catalogSource } = await resolveLocationCamera({
+      location: "north",
+      camera: "salesforce-north",
+    });
+    const resolved = await resolveLocationCamera({ location: "north", source: catalogSource });
+    expect(resolved.camera?.id).toBe("salesforce-north");
+
+    const outside = { type: "image" as const, url: "https://example.com/cam.jpg" };
+    expect(await resolveLocationCamera({ location: "x", source: outside })).toEqual({
+      source: outside,
+      camera: undefined,
+    });
+  });
+
+  it("rejects unknown cameras and configs with neither", async () => {
+    await expect(resolveLocationCamera({ location: "x", camera: "nowhere" })).rejects.toThrow(
+      'Camera "nowhere" is not in data/cameras.json'
+    );
+    await expect(resolveLocationCamera({ location: "x" })).rejects.toThrow(
+      'Location "x" has neither a camera nor a source'
+    );
+  });
+});
+
+describe("cameraCoverage", () => {
+  it("pairs cameras with the locations using them by ID or URL", () => {
+    const coverage = cameraCoverage(
+      [camera("east"), camera("north"), camera("south")],
+      [
+        { location: "north-b", camera: "north" },
+        { location: "north-a", source: camera("north").source },
+        { location: "east", camera: "east" },
+        { location: "elsewhere", source: { type: "image", url: "https://example.com/x.jpg" } },
+      ]
+    );
+
+    expect(coverage.map((c) => [c.camera.id, c.locations])).toEqual([
+      ["east", ["east"]],
+      ["north", ["north-a", "north-b"]],
+      ["south", []],
+    ]);
+  });
+});
@@ -13,6 +13,8 @@ vi.mock("../image-fetcher.js", () => ({
 
 import { fetchWebcamImage } from "../image-fetcher.js";
 import { analyzeFogLevel } from "../fog-detector.js";
+import { aggregateRegions } from "../regions.js";
+import { buildCurrentStatus, writeCurrentStatus } from "../current-status.js";
 
 const mockFetch = vi.mocked(fetchWebcamImage);
 
@@ -24,6 +26,10 @@ describe("check-fog integration", () => {
   beforeAll(async () => {
     tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-integration-"));
 
+    // Pin the clock to midday so day templates apply
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-06-21T20:00:00Z"));
+
     // Create a template image
     const templateBuffer = await createSolidPng(60, 60, { r: 255, g: 0, b: 0 });
     templatePath = path.join(tmpDir, "landmark.png");
@@ -32,6 +38,7 @@ describe("check-fog integration", () => {
 
   afterAll(async () => {
     await fs.rm(tmpDir, { recursive: true, force: true });
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
@@ -49,6 +56,7 @@ describe("check-fog integration", () => {
     // Create config
     const config: LocationConfig = {
       location: "integration-test",
+      region: "test-region",
       source: { type: "image", url: "https://example.com/cam.jpg" },
       landmarks: [
         {
@@ -69,6 +77,7 @@ describe("check-fog integration", () => {
     const result = await analyzeFogLevel("integration-test");
 
     expect(result.location).toBe("integration-test");
+    expect(result.status).toBe("ok");
     expect(result.landmarksVisible).toBe(1);
     expect(result.totalLandmarks).toBe(1);
     expect(result.visibilityScore).toBe(100);
@@ -80,12 +89,19 @@ describe("check-fog integration", () => {
   });
 
   it("detects heavy fog when landmarks are obscured", async () => {
-    // Webcam image where everything is grey (fog)
-    const foggyImage = await createSolidPng(200, 200, { r: 180, g: 180, b: 180 });
+    // Webcam image where everything beyond a nearby rooftop is grey (fog)
+    const foggyImage = await createImageWithRegion(
+      200,
+      200,
+      { x: 120, y: 150, width: 80, height: 50 },
+      { r: 180, g: 180, b: 180 },
+      { r: 70, g: 70, b: 70 }
+    );
     mockFetch.mockResolvedValue(foggyImage);
 
     const config: LocationConfig = {
       location: "foggy-test",
+      region: "test-region",
       source: { type: "image", url: "https://example.com/cam.jpg" },
       landmarks: [
         {
@@ -113,6 +129,163 @@ describe("check-fog integration", () => {
     await fs.rm(configPath, { force: true });
   });
 
+  it("marks night readings indeterminate when there are no night templates", async () => {
+    vi.setSystemTime(new Date("2026-06-22T08:00:00Z")); // 1am in San Francisco
+    const darkImage = await createImageWithRegion(
+      200,
+      200,
+      { x: 120, y: 40, width: 10, height: 60 },
+      { r: 5, g: 5, b: 5 },
+      { r: 255, g: 220, b: 150 } // a lit building
+    );
+    mockFetch.mockResolvedValue(darkImage);
+
+    const config: LocationConfig = {
+      location: "night-test",
+      region: "test-region",
+      coordinates: { latitude: 37.7897, longitude: -122.3972 },
+      source: { type: "image", url: "https://example.com/cam.jpg" },
+      landmarks: [
+        {
+          name: "red-landmark",
+          templatePath,
+          region,
+          threshold: 0.7,
+        },
+      ],
+    };
+
+    const locationsDir = path.resolve(import.meta.dirname, "..", "..", "data", "locations");
+    const configPath = path.join(locationsDir, "night-test.json");
+    await fs.writeFile(configPath, JSON.stringify(config));
+
+    const result = await analyzeFogLevel("night-test");
+
+    expect(result.status).toBe("indeterminate");
+    expect(result.statusReason).toMatch(/below the horizon/);
+    expect(result.lighting).toBe("night");
+    expect(result.sunElevation).toBeLessThan(-6);
+    expect(result.fogLevel).toBeNull();
+    expect(result.visibilityScore).toBeNull();
+    expect(result.landmarkDetails).toHaveLength(0);
+
+    // Clean up
+    vi.setSystemTime(new Date("2026-06-21T20:00:00Z"));
+    await fs.rm(configPath, { force: true });
+  });
+
+  it("reports an error instead of fog when the frame is unusable", async () => {
+    const blackImage = await createSolidPng(200, 200, { r: 0, g: 0, b: 0 });
+    mockFetch.mockResolvedValue(blackImage);
+
+    const config: LocationConfig = {
+      location: "black-frame-test",
+      region: "test-region",
+      source: { type: "image", url: "https://example.com/cam.jpg" },
+      landmarks: [
+        {
+          name: "red-landmark",
+          templatePath,
+          region,
+          threshold: 0.7,
+        },
+      ],
+    };
+
+    const locationsDir = path.resolve(import.meta.dirname, "..", "..", "data", "locations");
+    const configPath = path.join(locationsDir, "black-frame-test.json");
+    await fs.writeFile(configPath, JSON.stringify(config));
+
+    const result = await analyzeFogLevel("black-frame-test");
+
+    expect(result.status).toBe("error");
+    expect(result.statusReason).toMatch(/^Frame rejected: black frame/);
+    expect(result.errorClass).toBe("FrameRejected");
+    expect(result.fogLevel).toBeNull();
+    expect(result.visibilityScore).toBeNull();
+    expect(result.frameQuality?.brightness).toBe(0);
+
+    // Clean up
+    await fs.rm(configPath, { force: true });
+  });
+
+  it("reports an error when the camera cannot be fetched", async () => {
+    mockFetch.mockRejectedValue(new Error("Failed to fetch image: 503 Service Unavailable"));
+
+    const config: LocationConfig = {
+      location: "offline-test",
+      region: "test-region",
+      weight: 2,
+      source: { type: "image", url: "https://example.com/cam.jpg" },
+      landmarks: [
+        {
+          name: "red-landmark",
+          templatePath,
+          region,
+          threshold: 0.7,
+        },
+      ],
+    };
+
+    const locationsDir = path.resolve(import.meta.dirname, "..", "..", "data", "locations");
+    const configPath = path.join(locationsDir, "offline-test.json");
+    await fs.writeFile(configPath, JSON.stringify(config));
+
+    const result = await analyzeFogLevel("offline-test");
+
+    expect(result.status).toBe("error");
+    expect(result.statusReason).toBe("Fetch failed: Failed to fetch image: 503 Service Unavailable");
+    expect(result.errorClass).toBe("Error");
+    expect(result.region).toBe("test-region");
+    expect(result.weight).toBe(2);
+    expect(result.frameQuality).toBeUndefined();
+
+    // Clean up
+    await fs.rm(configPath, { force: true });
+  });
+
+  it("archives the frame and landmark crops when asked", async () => {
+    const webcamImage = await createImageWithRegion(
+      200,
+      200,
+      region,
+      { r: 100, g: 100, b: 100 },
+      { r: 255, g: 0, b: 0 }
+    );
+    mockFetch.mockResolvedValue(webcamImage);
+
+    const config: LocationConfig = {
+      location: "archive-test",
+      region: "test-region",
+      source: { type: "image", url: "https://example.com/cam.jpg" },
+      landmarks: [
+        {
+          name: "red-landmark",
+          templatePath,
+          region,
+          threshold: 0.5,
+        },
+      ],
+    };
+
+    const locationsDir = path.resolve(import.meta.dirname, "..", "..", "data", "locations");
+    const configPath = path.join(locationsDir, "archive-test.json");
+    await fs.writeFile(configPath, JSON.stringify(config));
+
+    const archiveDir = path.join(tmpDir, "archive");
+    await analyzeFogLevel("archive-test", { archiveDir });
+
+    const runDir = path.join(archiveDir, "archive-test", "2026-06-21T200000Z");
+    expect((await fs.readdir(runDir)).sort()).toEqual([
+      "frame.png",
+      "reading.json",
+      "red-landmark.png",
+    ]);
+
+    // Clean up
+    await fs.rm(configPath, { force: true });
+  });
+
   it("produces valid CurrentStatus JSON structure", async () => {
     const webcamImage = await createImageWithRegion(
       200,
@@ -125,6 +298,7 @@ describe("check-fog integration", () => {
 
     const config: LocationConfig = {
       location: "json-test",
+      region: "test-region",
       source: { type: "image", url: "https://example.com/cam.jpg" },
       landmarks: [
         {
@@ -142,29 +316,23 @@ describe("check-fog integration", () => {
 
     const result = await analyzeFogLevel("json-test");
 
-    // Build the CurrentStatus like check-fog.ts does
-    const status: CurrentStatus = {
-      location: result.location,
-      currentStatus: {
-        fogLevel: result.fogLevel,
-        visibilityScore: result.visibilityScore,
-        timestamp: result.timestamp,
-      },
-      prediction: null,
-    };
+    // Build the CurrentStatus the way check-fog.ts does
+    const [status] = buildCurrentStatus([result], aggregateRegions([result]));
 
     // Validate structure
     expect(status.location).toBe("json-test");
+    expect(status.currentStatus.status).toBe("ok");
     expect(status.currentStatus.fogLevel).toMatch(/^(clear|light|moderate|heavy)$/);
     expect(typeof status.currentStatus.visibilityScore).toBe("number");
     expect(new Date(status.currentStatus.timestamp).getTime()).not.toBeNaN();
     expect(status.prediction).toBeNull();
 
-    // Verify it serializes to valid JSON
-    const json = JSON.stringify([status], null, 2);
-    const parsed = JSON.parse(json) as CurrentStatus[];
-    expect(parsed).toHaveLength(1);
-    expect(parsed[0].location).toBe("json-test");
+    // The file check-fog writes holds the same entries
+    await writeCurrentStatus(tmpDir, [result], aggregateRegions([result]));
+    const written: CurrentStatus[] = JSON.parse(
+      await fs.readFile(path.join(tmpDir, "current.json"), "utf-8")
+    );
+    expect(written).toEqual([status]);
 
     // Clean up
     await fs.rm(configPath, { force: true });
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { parseCount } from "../cli-args.js";
+
+describe("parseCount", () => {
+  it("accepts positive numbers, and zero when allowed", () => {
+    expect(parseCount("timeout", "2.5")).toBe(2.5);
+    expect(parseCount("retries", "0", { integer: true, allowZero: true })).toBe(0);
+  });
+
+  it("rejects values that would slip through Number()", () => {
+    for (const value of ["", " ", "5s", "-1", "0", "Infinity", "NaN"]) {
+      expect(() => parseCount("days", value)).toThrow(`Invalid --days "${value}"; expected a number > 0`);
+    }
+    expect(() => parseCount("max-runs", "1.5", { integer: true })).toThrow(
+      'Invalid --max-runs "1.5"; expected a whole number > 0'
+    );
+    expect(() => parseCount("max-runs", "-2", { integer: true })).toThrow(/whole number > 0/);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+  buildClimatology,
+  loadClimatologyTally,
+  refreshClimatology,
+  saveClimatology,
+  summarizeClimatology,
+  tallyClimatology,
+  updateClimatologyDay,
+  writeClimatology,
+} from "../climatology.js";
+import {
+  loadHistory,
+  readLocalHistory,
+  writeHistoricalReadings,
+  writeLocalHistory,
+} from "../history.js";
+import type { FogLevel, HistoricalReading, ReadingStatus } from "../types.js";
+
+function reading(
+  timestamp: string,
+  fogLevel: FogLevel | null,
+  status: ReadingStatus = "ok"
+): HistoricalReading {
+  return {
+    timestamp,
+    regions: {
+      "golden-gate": {
+        status,
+        fogLevel,
+        visibilityScore: fogLevel === "clear" ? 100 : fogLevel === null ? null : 20,
+        landmarksVisible: fogLevel === "clear" ? 3 : 0,
+        totalLandmarks: 3,
+      },
+    },
+  };
+}
+
+// An August 21 morning in San Francisco (PDT, UTC-7)
+const augustMorning = [
+  reading("2026-08-21T12:00:00.000Z", "heavy"), // 5am
+  reading("2026-08-21T13:00:00.000Z", "heavy"), // 6am
+  reading("2026-08-21T14:00:00.000Z", null, "indeterminate"), // 7am, too dark
+  reading("2026-08-21T15:00:00.000Z", "moderate"), // 8am
+  reading("2026-08-21T16:00:00.000Z", "clear"), // 9am
+  reading("2026-08-21T17:00:00.000Z", "clear"), // 10am
+  reading("2026-08-21T18:00:00.000Z", "light"), // 11am
+  reading("2026-08-21T19:00:00.000Z", "clear"), // noon
+  // The gap breaks the clear stretch
+  reading("2026-08-21T23:00:00.000Z", "clear"), // 4pm
+  reading("2026-08-22T00:00:00.000Z", "clear"), // 5pm, the next UTC day
+];
+
+describe("buildClimatology", () => {
+  it("counts fog levels by Pacific month and hour, skipping unusable readings", () => {
+    const [climatology] = buildClimatology(
+      [...augustMorning, reading("2026-08-22T12:00:00.000Z", "clear")],
+      new Date("2026-08-22T20:00:00.000Z")
+    );
+
+    expect(climatology).toMatchObject({
+      region: "golden-gate",
+      startDate: "2026-08-21",
+      endDate: "2026-08-22",
+      readings: 10,
+      lastUpdated: "2026-08-22T20:00:00.000Z",
+    });
+    expect(climatology.months).toHaveLength(12);
+
+    const august = climatology.months[7];
+    expect(august.month).toBe(8);
+    expect(august.frequency).toEqual({
+      readings: 10,
+      clear: 0.6,
+      light: 0.1,
+      moderate: 0.1,
+      heavy: 0.2,
+    });
+    expect(august.hours[5]).toEqual({ readings: 2, clear: 0.5, light: 0, moderate: 0, heavy: 0.5 });
+    expect(august.hours[7].readings).toBe(0);
+    expect(climatology.months[0].frequency.readings).toBe(0);
+  });
+
+  it("summarizes each Pacific day", () => {
+    const [climatology] = buildClimatology(augustMorning);
+
+    expect(climatology.days).toEqual([
+      {
+        date: "2026-08-21",
+        readings: 9,
+        foggyHours: 4,
+        firstClearHour: 9,
+        longestClearHours: 2,
+      },
+    ]);
+  });
+
+  it("reports days that never cleared", () => {
+    const [climatology] = buildClimatology([
+      reading("2026-07-04T16:00:00.000Z", "heavy"),
+      reading("2026-07-04T17:00:00.000Z", "moderate"),
+    ]);
+    expect(climatology.days[0]).toMatchObject({ firstClearHour: null, longestClearHours: 0 });
+  });
+});
+
+describe("climatology files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "climatology-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes one endpoint per region plus a summary index", async () => {
+    await writeClimatology(dir, buildClimatology(augustMorning, new Date("2026-08-22T20:00:00Z")));
+
+    expect((await fs.readdir(dir)).sort()).toEqual(["golden-gate", "index"]);
+    const index = JSON.parse(await fs.readFile(path.join(dir, "index"), "utf-8"));
+    expect(index).toEqual([
+      {
+        region: "golden-gate",
+        startDate: "2026-08-21",
+        endDate: "2026-08-21",
+        readings: 9,
+        days: 1,
+        lastUpdated: "2026-08-22T20:00:00.000Z",
+      },
+    ]);
+  });
+});
+
+describe("updateClimatologyDay", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "climatology-history-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // Write readings the way a check run does, returning the local day before and after
+  async function record(readings: HistoricalReading[], date: string) {
+    const before = await readLocalHistory(dir, date);
+    await writeHistoricalReadings(dir, readings);
+    await writeLocalHistory(dir, readings);
+    return { before, after: await readLocalHistory(dir, date) };
+  }
+
+  it("matches a full rebuild after each hourly reading", async () => {
+    const [first, ...rest] = augustMorning;
+    await record([first], "2026-08-21");
+    let tally = tallyClimatology(await loadHistory(dir, { hourly: true }));
+
+    for (const next of rest) {
+      const { before, after } = await record([next], "2026-08-21");
+      tally = updateClimatologyDay(tally, "2026-08-21", before, after);
+    }
+
+    const now = new Date("2026-08-22T20:00:00Z");
+    expect(summarizeClimatology(tally, now)).toEqual(
+      buildClimatology(await loadHistory(dir, { hourly: true }), now)
+    );
+  });
+
+  it("replaces a reading the day already counted", async () => {
+    await record(augustMorning, "2026-08-21");
+    const tally = tallyClimatology(await loadHistory(dir, { hourly: true }));
+
+    // A later reading in the 9am hour turns it foggy
+    const { before, after } = await record([reading("2026-08-21T16:30:00.000Z", "heavy")], "2026-08-21");
+    const [climatology] = summarizeClimatology(updateClimatologyDay(tally, "2026-08-21", before, after));
+
+    expect(climatology.readings).toBe(9);
+    expect(climatology.months[7].hours[9]).toEqual({ readings: 1, clear: 0, light: 0, moderate: 0, heavy: 1 });
+    expect(climatology.days[0]).toMatchObject({ foggyHours: 5, firstClearHour: 10 });
+  });
+
+  it("counts each reading once on the first run, before any local view exists", async () => {
+    const statePath = path.join(dir, "state", "climatology.json");
+    // History from before local views or the tally existed
+    await writeHistoricalReadings(dir, augustMorning.slice(0, 2));
+
+    const { before } = await record([augustMorning[2], augustMorning[3]], "2026-08-21");
+    expect(before).toBeNull();
+    const [first] = summarizeClimatology(await refreshClimatology(dir, "2026-08-21", before, statePath));
+    expect(first.months[7].frequency.readings).toBe(3);
+
+    // Later runs update the saved tally
+    await saveClimatology(await refreshClimatology(dir, "2026-08-21", before, statePath), {
+      dir: path.join(dir, "climatology"),
+      statePath,
+    });
+    const next = await record([augustMorning[4]], "2026-08-21");
+    const [second] = summarizeClimatology(
+      await refreshClimatology(dir, "2026-08-21", next.before, statePath)
+    );
+    expect(second.months[7].frequency.readings).toBe(4);
+  });
+
+  it("publishes the climatology and keeps the tally for the next run", async () => {
+    const statePath = path.join(dir, "state", "climatology.json");
+    const tally = tallyClimatology(augustMorning);
+
+    const climatology = await saveClimatology(tally, { dir: path.join(dir, "climatology"), statePath });
+
+    expect(climatology.map((c) => c.region)).toEqual(["golden-gate"]);
+    expect(await loadClimatologyTally(statePath)).toEqual(tally);
+    expect(await loadClimatologyTally(path.join(dir, "missing.json"))).toBeNull();
+  });
+});
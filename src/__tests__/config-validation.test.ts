@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createSolidPng } from "./helpers.js";
+import {
+  loadLocationConfig,
+  validateLocationConfig,
+  validateLocationFiles,
+} from "../config-validation.js";
+
+describe("location config validation", () => {
+  let tmpDir: string;
+  let templatePath: string;
+
+  const config = (overrides: Record<string, unknown> = {}) => ({
+    location: "north",
+    region: "golden-gate",
+    camera: "salesforce-north", // 1280x720 in the catalog
+    landmarks: [
+      {
+        name: "tower",
+        templatePath,
+        region: { x: 400, y: 260, width: 80, height: 160 },
+        threshold: 0.55,
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "config-validation-"));
+    templatePath = path.join(tmpDir, "tower.png");
+    await fs.writeFile(templatePath, await createSolidPng(80, 160, { r: 200, g: 50, b: 50 }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("accepts a well-formed config", async () => {
+    expect(await validateLocationConfig(config(), "north")).toEqual([]);
+  });
+
+  it("reports a missing region", async () => {
+    const { region, ...withoutRegion } = config();
+    expect(await validateLocationConfig(withoutRegion)).toEqual([
+      { path: "region", message: "is required" },
+    ]);
+  });
+
+  it("reports every schema problem with its field path", async () => {
+    const issues = await validateLocationConfig(
+      config({
+        wieght: 2,
+        landmarks: [
+          {
+            name: "tower",
+            templatePath,
+            region: { x: -5, y: 260, width: 80, height: 160 },
+            threshold: 1.5,
+            metric: "sift",
+          },
+        ],
+      })
+    );
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        { path: "wieght", message: "is not a known field (check for a typo)" },
+        { path: "landmarks[0].region.x", message: "must be >= 0" },
+        { path: "landmarks[0].threshold", message: "must be <= 1" },
+        { path: "landmarks[0].metric", message: 'must be one of "pixelmatch", "ssim", "ncc", "edge"' },
+      ])
+    );
+    expect(issues).toHaveLength(4);
+  });
+
+  it("reports a crop outside the camera's frame", async () => {
+    const issues = await validateLocationConfig(
+      config({
+        landmarks: [
+          { name: "tower", templatePath, region: { x: 1250, y: 260, width: 80, height: 160 }, threshold: 0.5 },
+        ],
+      })
+    );
+    expect(issues).toEqual([
+      {
+        path: "landmarks[0].region",
+        message: '80x160 at 1250,260 extends past the 1280x720 frame of camera "salesforce-north"',
+      },
+    ]);
+  });
+
+  it("requires exactly one of a catalog camera or a source", async () => {
+    const { camera, ...withoutCamera } = config();
+    const source = { type: "image", url: "https://example.com/cam.jpg" };
+
+    expect(await validateLocationConfig(config({ camera: "nowhere" }))).toEqual([
+      { path: "camera", message: '"nowhere" is not in data/cameras.json' },
+    ]);
+    expect(await validateLocationConfig(withoutCamera)).toEqual([
+      { path: "camera", message: "is required (or a source, for cameras outside the catalog)" },
+    ]);
+    expect((await validateLocationConfig(config({ source })))[0].path).toBe("source");
+    expect(await validateLocationConfig({ ...withoutCamera, source })).toEqual([]);
+  });
+
+  it("accepts local paths only for file sources", async () => {
+    const { camera, ...withoutCamera } = config();
+    const replay = { type: "file", url: "replays/fog-bank" };
+
+    expect(await validateLocationConfig({ ...withoutCamera, source: replay })).toEqual([]);
+    expect(
+      await validateLocationConfig({ ...withoutCamera, source: { ...replay, type: "mjpeg" } })
+    ).toEqual([{ path: "source.url", message: 'must match pattern "^https?://"' }]);
+  });
+
+  it("reports templates that are missing or don't match their region", async () => {
+    const issues = await validateLocationConfig(
+      config({
+        landmarks: [
+          { name: "tower", templatePath, region: { x: 400, y: 260, width: 100, height: 160 }, threshold: 0.5 },
+          {
+            name: "hill",
+            templatePath: path.join(tmpDir, "hill.png"),
+            region: { x: 0, y: 0, width: 10, height: 10 },
+            threshold: 0.5,
+          },
+        ],
+      })
+    );
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].path).toBe("landmarks[0].templatePath");
+    expect(issues[0].message).toMatch(/is 80x160 but the landmark region is 100x160/);
+    expect(issues[1]).toEqual({
+      path: "landmarks[1].templatePath",
+      message: `${path.join(tmpDir, "hill.png")} does not exist`,
+    });
+  });
+
+  it("reports a config named differently from its file and duplicate landmarks", async () => {
+    const [landmark] = config().landmarks;
+    const issues = await validateLocationConfig(config({ landmarks: [landmark, landmark] }), "west");
+    expect(issues.map((i) => i.path)).toEqual(["location", "landmarks[1].name"]);
+  });
+
+  it("throws every issue when loading an invalid config", async () => {
+    const configPath = path.join(tmpDir, "north.json");
+    const { region, ...withoutRegion } = config();
+    await fs.writeFile(configPath, JSON.stringify({ ...withoutRegion, weight: -1 }));
+
+    await expect(loadLocationConfig(configPath)).rejects.toThrow(
+      /is invalid:\n {2}region: is required\n {2}weight: must be >= 0/
+    );
+  });
+
+  it("validates a directory without stopping at broken files", async () => {
+    const dir = path.join(tmpDir, "locations");
+    await fs.mkdir(dir);
+    await fs.writeFile(path.join(dir, "north.json"), JSON.stringify(config()));
+    await fs.writeFile(path.join(dir, "broken.json"), "{ not json");
+
+    const reports = await validateLocationFiles(dir);
+    expect(reports.map((r) => [r.location, r.issues.length])).toEqual([
+      ["broken", 1],
+      ["north", 0],
+    ]);
+    expect(reports[0].issues[0].message).toMatch(/is not valid JSON/);
+  });
+
+  it("accepts every config in data/locations", async () => {
+    // Other test files write temporary "*test*" configs here while running
+    const reports = await validateLocationFiles();
+    const invalid = reports.filter((r) => r.issues.length > 0 && !r.location.includes("test"));
+    expect(invalid).toEqual([]);
+  });
+});
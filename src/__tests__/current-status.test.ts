@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { buildCurrentStatus, writeCurrentStatus } from "../current-status.js";
+import { aggregateRegions } from "../regions.js";
+import { createReading } from "./helpers.js";
+import type { CurrentStatus, Prediction } from "../types.js";
+
+// Exactly the fields of each type: adding or removing one in types.ts
+// fails the type-check here until the shape check below is updated
+const CURRENT_STATUS_FIELDS: Record<keyof CurrentStatus, true> = {
+  location: true,
+  currentStatus: true,
+  prediction: true,
+};
+const READING_FIELDS: Record<keyof CurrentStatus["currentStatus"], true> = {
+  status: true,
+  fogLevel: true,
+  visibilityScore: true,
+  timestamp: true,
+};
+const PREDICTION_FIELDS: Record<keyof Prediction, true> = {
+  estimatedClearTime: true,
+  hoursUntilClear: true,
+  confidence: true,
+  basedOnSamples: true,
+  message: true,
+};
+
+const keys = (fields: Record<string, true>) => Object.keys(fields).sort();
+
+/**
+ * Narrow a parsed JSON value to an object, failing the test otherwise.
+ */
+function expectObject(value: unknown): Record<string, unknown> {
+  expect(value).toBeTypeOf("object");
+  expect(value).not.toBeNull();
+  expect(Array.isArray(value)).toBe(false);
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Check a parsed current.json entry field by field against CurrentStatus.
+ */
+function expectCurrentStatus(value: unknown): void {
+  const entry = expectObject(value);
+  expect(Object.keys(entry).sort()).toEqual(keys(CURRENT_STATUS_FIELDS));
+  expect(typeof entry.location).toBe("string");
+
+  const reading = expectObject(entry.currentStatus);
+  expect(Object.keys(reading).sort()).toEqual(keys(READING_FIELDS));
+  expect(["ok", "indeterminate", "error"]).toContain(reading.status);
+  if (reading.status === "ok") {
+    expect(["clear", "light", "moderate", "heavy"]).toContain(reading.fogLevel);
+    expect(typeof reading.visibilityScore).toBe("number");
+  } else {
+    expect(reading.fogLevel).toBeNull();
+    expect(reading.visibilityScore).toBeNull();
+  }
+  expect(typeof reading.timestamp).toBe("string");
+  expect(Date.parse(reading.timestamp as string)).not.toBeNaN();
+
+  if (entry.prediction !== null) {
+    const prediction = expectObject(entry.prediction);
+    expect(Object.keys(prediction).sort()).toEqual(keys(PREDICTION_FIELDS));
+    expect(typeof prediction.confidence).toBe("number");
+    expect(typeof prediction.basedOnSamples).toBe("number");
+    expect(typeof prediction.message).toBe("string");
+    expect(prediction.hoursUntilClear === null).toBe(prediction.estimatedClearTime === null);
+  }
+}
+
+const prediction: Prediction = {
+  estimatedClearTime: "2026-06-21T19:00:00.000Z",
+  hoursUntilClear: 3,
+  confidence: 60,
+  basedOnSamples: 24,
+  message: "Expected to clear in about 3 hours",
+};
+
+describe("buildCurrentStatus", () => {
+  const results = [
+    createReading({ location: "north", landmarksVisible: 0, visibilityScore: 0, fogLevel: "heavy" }),
+    createReading({
+      location: "west",
+      status: "error",
+      statusReason: "Fetch failed: timeout",
+      fogLevel: null,
+      visibilityScore: null,
+    }),
+    createReading({ location: "tower", region: "downtown", visibilityScore: 100, fogLevel: "clear" }),
+  ];
+  const regions = aggregateRegions(results);
+  regions[0].prediction = prediction;
+
+  it("writes one entry per location in the CurrentStatus shape", () => {
+    const parsed = JSON.parse(JSON.stringify(buildCurrentStatus(results, regions), null, 2));
+
+    expect(parsed.map((s: CurrentStatus) => s.location)).toEqual(["north", "west", "tower"]);
+    parsed.forEach(expectCurrentStatus);
+  });
+
+  it("writes api/current.json as check-fog publishes it", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "current-status-"));
+    try {
+      await writeCurrentStatus(dir, results, regions);
+
+      const parsed: unknown = JSON.parse(await fs.readFile(path.join(dir, "current.json"), "utf-8"));
+      expect(Array.isArray(parsed)).toBe(true);
+      expect(parsed).toHaveLength(3);
+      (parsed as unknown[]).forEach(expectCurrentStatus);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("gives usable locations their region's prediction", () => {
+    const [north, west, tower] = buildCurrentStatus(results, regions);
+
+    expect(north.prediction).toEqual(prediction);
+    expect(west.currentStatus.status).toBe("error");
+    expect(west.prediction).toBeNull();
+    expect(tower.prediction).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import sharp from "sharp";
+import { createImageWithRegion, createSolidPng } from "./helpers.js";
+import { renderDebugImage, writeDebugImage } from "../debug-image.js";
+import type { ComparedLandmark } from "../frame-archive.js";
+import type { VisibilityResult } from "../types.js";
+
+const HEADER_HEIGHT = 32;
+
+describe("debug image", () => {
+  const towerRegion = { x: 20, y: 20, width: 40, height: 40 };
+  const hillRegion = { x: 120, y: 60, width: 40, height: 20 };
+  let tmpDir: string;
+  let frame: Buffer;
+  let landmarks: ComparedLandmark[];
+
+  const reading: VisibilityResult = {
+    location: "north",
+    region: "golden-gate",
+    weight: 1,
+    status: "ok",
+    landmarksVisible: 1,
+    totalLandmarks: 2,
+    visibilityScore: 50,
+    fogLevel: "light",
+    timestamp: "2026-06-21T20:00:00.000Z",
+    sunElevation: 70,
+    lighting: "day",
+    landmarkDetails: [
+      { name: "tower", visible: true, similarity: 0.91, lighting: "day", metric: "pixelmatch", rawScore: 0.91 },
+      { name: "hill", visible: false, similarity: 0.2, lighting: "day", metric: "pixelmatch", rawScore: 0.2 },
+    ],
+  };
+
+  const pixel = async (image: Buffer, x: number, y: number) => {
+    const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+    const i = (y * info.width + x) * info.channels;
+    return [data[i], data[i + 1], data[i + 2]];
+  };
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "debug-image-"));
+    frame = await createImageWithRegion(200, 100, towerRegion);
+    const templatePath = path.join(tmpDir, "tower.png");
+    await fs.writeFile(templatePath, await createSolidPng(40, 40, { r: 255, g: 0, b: 0 }));
+    landmarks = [
+      { landmark: { name: "tower", templatePath, region: towerRegion, threshold: 0.7 }, templatePath, threshold: 0.7 },
+      {
+        landmark: { name: "hill", templatePath: "missing.png", region: hillRegion, threshold: 0.6 },
+        templatePath: path.join(tmpDir, "missing.png"),
+        threshold: 0.6,
+      },
+    ];
+  });
+
+  afterAll(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("draws boxes colored by visibility over the frame", async () => {
+    const image = await renderDebugImage(frame, landmarks, reading);
+
+    // Visible landmark outlined in green, obscured one in red
+    const [r1, g1] = await pixel(image, towerRegion.x + 20, HEADER_HEIGHT + towerRegion.y);
+    expect(g1).toBeGreaterThan(150);
+    expect(r1).toBeLessThan(150);
+    const [r2, g2] = await pixel(image, hillRegion.x + 20, HEADER_HEIGHT + hillRegion.y + hillRegion.height - 1);
+    expect(r2).toBeGreaterThan(200);
+    expect(g2).toBeLessThan(150);
+  });
+
+  it("adds a strip of template and live crops below the frame", async () => {
+    const image = await renderDebugImage(frame, landmarks, reading);
+    const { width, height } = await sharp(image).metadata();
+
+    // Two 96px-high pairs: tower 96+96, hill 192+192, plus gaps
+    expect(width).toBe(8 + 192 + 8 + 384 + 8);
+    expect(height).toBe(HEADER_HEIGHT + 100 + 8 + 96 + 20);
+    // The tower's template (solid red) sits first in the strip
+    expect(await pixel(image, 8 + 48, HEADER_HEIGHT + 100 + 8 + 48)).toEqual([255, 0, 0]);
+  });
+
+  it("still renders frames that produced no landmark comparisons", async () => {
+    const image = await renderDebugImage(frame, [], {
+      ...reading,
+      status: "error",
+      statusReason: "Frame rejected: frozen",
+      fogLevel: null,
+      visibilityScore: null,
+      landmarkDetails: [],
+    });
+    const { width, height } = await sharp(image).metadata();
+    expect([width, height]).toEqual([200, HEADER_HEIGHT + 100]);
+  });
+
+  it("writes one image per location, replacing the last", async () => {
+    const debugDir = path.join(tmpDir, "debug");
+    const file = await writeDebugImage(debugDir, frame, landmarks, reading);
+    await writeDebugImage(debugDir, frame, landmarks, reading);
+
+    expect(file).toBe(path.join(debugDir, "north.png"));
+    expect(await fs.readdir(debugDir)).toEqual(["north.png"]);
+  });
+});
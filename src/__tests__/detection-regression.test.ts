@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  GOLDEN_DIR,
+  evaluateGoldenSet,
+  findRegressions,
+  toBaseline,
+  type EvaluationBaseline,
+} from "../evaluation.js";
+
+// Every frame so far is synthetic (see scripts/build-golden-fixtures.ts):
+// built from the templates the detector compares against, so this only
+// catches changes in how the detector scores them. It says nothing about
+// accuracy on real fog, and the baseline's heavy-fog recall of 0 is a
+// known miss rather than a target.
+describe("synthetic regression set", () => {
+  it("scores no lower than the recorded baseline", async () => {
+    const baseline: EvaluationBaseline = JSON.parse(
+      await fs.readFile(path.join(GOLDEN_DIR, "baseline.json"), "utf-8")
+    );
+    const report = await evaluateGoldenSet();
+
+    // Improvements pass too; record them with `npm run evaluate -- --update-baseline`
+    expect(findRegressions(report, baseline)).toEqual([]);
+  });
+});
+
+describe("findRegressions", () => {
+  const report = {
+    frames: 2,
+    syntheticFrames: 2,
+    landmarkAccuracy: 0.75,
+    levelAccuracy: 0.5,
+    landmarks: {
+      "cam/tower": {
+        truePositive: 1,
+        falseNegative: 0,
+        falsePositive: 1,
+        trueNegative: 2,
+        precision: 0.5,
+        recall: 1,
+      },
+    },
+    levels: {
+      clear: { precision: 0.5, recall: 1, support: 1 },
+      light: { precision: null, recall: null, support: 0 },
+      moderate: { precision: null, recall: null, support: 0 },
+      heavy: { precision: null, recall: 0, support: 1 },
+    },
+    mismatches: [],
+  };
+
+  it("passes a report that matches its own baseline", () => {
+    expect(findRegressions(report, toBaseline(report))).toEqual([]);
+  });
+
+  it("lists each score that dropped below the baseline", () => {
+    const baseline = toBaseline(report);
+    baseline.landmarkAccuracy = 0.9;
+    baseline.landmarks["cam/tower"].precision = 0.8;
+
+    expect(findRegressions(report, baseline)).toEqual([
+      "landmark accuracy: 0.75 < baseline 0.9",
+      "cam/tower precision: 0.5 < baseline 0.8",
+    ]);
+  });
+
+  it("flags a landmark missing from the report", () => {
+    const baseline = toBaseline(report);
+    baseline.landmarks["cam/bridge"] = { precision: 1, recall: 1 };
+
+    expect(findRegressions(report, baseline)).toEqual([
+      "cam/bridge precision: missing < baseline 1",
+      "cam/bridge recall: missing < baseline 1",
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { combineFogCeilings, estimateFogCeiling } from "../fog-ceiling.js";
+
+describe("estimateFogCeiling", () => {
+  it("places an elevated layer between visible and obscured landmarks", () => {
+    // Marine layer hiding the bridge towers and hilltops, shoreline still visible
+    const ceiling = estimateFogCeiling([
+      { visible: true, elevationM: 50 },
+      { visible: false, elevationM: 227 },
+      { visible: false, elevationM: 280 },
+    ]);
+    expect(ceiling).toEqual({ minM: 50, maxM: 227, layer: "elevated" });
+  });
+
+  it("reports surface fog when nothing is visible", () => {
+    const ceiling = estimateFogCeiling([
+      { visible: false, elevationM: 50 },
+      { visible: false, elevationM: 227 },
+    ]);
+    expect(ceiling).toEqual({ minM: null, maxM: 50, layer: "surface" });
+  });
+
+  it("reports no layer when nothing is hidden above the visible landmarks", () => {
+    const ceiling = estimateFogCeiling([
+      { visible: true, elevationM: 227 },
+      { visible: false, elevationM: 10 }, // hidden by distance, not height
+    ]);
+    expect(ceiling).toEqual({ minM: 227, maxM: null, layer: "none" });
+  });
+
+  it("ignores landmarks without an elevation", () => {
+    expect(estimateFogCeiling([{ visible: true }])).toBeUndefined();
+  });
+});
+
+describe("combineFogCeilings", () => {
+  it("keeps the highest clear and lowest obscured elevation across cameras", () => {
+    const ceiling = combineFogCeilings([
+      { minM: 50, maxM: 280, layer: "elevated" },
+      { minM: 10, maxM: 227, layer: "elevated" },
+    ]);
+    expect(ceiling).toEqual({ minM: 50, maxM: 227, layer: "elevated" });
+  });
+
+  it("lets one camera's visible landmark lift another camera's surface fog", () => {
+    const ceiling = combineFogCeilings([
+      { minM: null, maxM: 10, layer: "surface" },
+      { minM: 260, maxM: null, layer: "none" },
+    ]);
+    expect(ceiling).toEqual({ minM: 260, maxM: null, layer: "none" });
+  });
+});
@@ -4,8 +4,8 @@ import path from "node:path";
 import os from "node:os";
 import sharp from "sharp";
 import { createSolidPng, createImageWithRegion } from "./helpers.js";
-import { checkLandmarkVisibility } from "../fog-detector.js";
-import type { LandmarkTemplate } from "../types.js";
+import { checkLandmarkVisibility, failedReading, selectTemplate } from "../fog-detector.js";
+import type { CameraInfo, LandmarkTemplate } from "../types.js";
 
 describe("checkLandmarkVisibility", () => {
   let tmpDir: string;
@@ -105,12 +105,142 @@ describe("checkLandmarkVisibility", () => {
     expect(zeroResult.visible).toBe(true);
     expect(lowResult.visible).toBe(false);
   });
+
+  it("compares against the night template when it is dark", async () => {
+    // Night frame: the landmark shows up blue (lit) instead of red
+    const nightTemplatePath = path.join(tmpDir, "template-night.png");
+    await fs.writeFile(
+      nightTemplatePath,
+      await createSolidPng(100, 100, { r: 0, g: 0, b: 255 })
+    );
+    const webcamBuffer = await createImageWithRegion(
+      300,
+      300,
+      region,
+      { r: 10, g: 10, b: 10 },
+      { r: 0, g: 0, b: 255 }
+    );
+
+    const landmark: LandmarkTemplate = {
+      name: "test-landmark",
+      templatePath,
+      region,
+      threshold: 0.7,
+      templates: [{ lighting: "night", templatePath: nightTemplatePath }],
+    };
+
+    const dayResult = await checkLandmarkVisibility(webcamBuffer, landmark, "day");
+    const nightResult = await checkLandmarkVisibility(webcamBuffer, landmark, "night");
+
+    expect(dayResult.lighting).toBe("day");
+    expect(dayResult.visible).toBe(false);
+    expect(nightResult.lighting).toBe("night");
+    expect(nightResult.visible).toBe(true);
+  });
+});
+
+describe("checkLandmarkVisibility metrics", () => {
+  it("scores with the landmark's configured metric", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-metric-"));
+    const region = { x: 20, y: 20, width: 40, height: 40 };
+    const templatePath = path.join(tmpDir, "template.png");
+    // Template: the landmark region cropped from a reference frame
+    const frame = await createImageWithRegion(100, 100, { x: 30, y: 30, width: 20, height: 20 });
+    await sharp(frame)
+      .extract({ left: 20, top: 20, width: 40, height: 40 })
+      .png()
+      .toFile(templatePath);
+
+    const landmark: LandmarkTemplate = {
+      name: "test-landmark",
+      templatePath,
+      region,
+      threshold: 0.9,
+      metric: "ssim",
+    };
+
+    const result = await checkLandmarkVisibility(frame, landmark);
+
+    expect(result.metric).toBe("ssim");
+    expect(result.rawScore).toBeCloseTo(1, 2);
+    expect(result.visible).toBe(true);
+
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+});
+
+describe("checkLandmarkVisibility drift search", () => {
+  it("finds a landmark that drifted and reports the offset", async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-drift-"));
+    const region = { x: 40, y: 40, width: 60, height: 60 };
+    const templatePath = path.join(tmpDir, "template.png");
+
+    // Template cut from the original framing, with the landmark centered
+    const original = await createImageWithRegion(200, 200, { x: 55, y: 50, width: 30, height: 40 });
+    await sharp(original)
+      .extract({ left: region.x, top: region.y, width: region.width, height: region.height })
+      .png()
+      .toFile(templatePath);
+
+    // Camera has since shifted: landmark appears 4px right and 3px down
+    const drifted = await createImageWithRegion(200, 200, { x: 59, y: 53, width: 30, height: 40 });
+
+    const landmark: LandmarkTemplate = {
+      name: "test-landmark",
+      templatePath,
+      region,
+      threshold: 0.9,
+    };
+
+    const fixed = await checkLandmarkVisibility(drifted, landmark);
+    const searched = await checkLandmarkVisibility(drifted, landmark, "day", { radius: 8 });
+
+    expect(fixed.visible).toBe(false);
+    expect(fixed.offset).toBeUndefined();
+    expect(searched.visible).toBe(true);
+    expect(searched.offset).toEqual({ x: 4, y: 3 });
+
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+});
+
+describe("selectTemplate", () => {
+  const landmark: LandmarkTemplate = {
+    name: "test-landmark",
+    templatePath: "day.png",
+    region: { x: 0, y: 0, width: 10, height: 10 },
+    threshold: 0.7,
+    templates: [{ lighting: "twilight", templatePath: "twilight.png", threshold: 0.5 }],
+  };
+
+  it("uses the clear-day template during the day", () => {
+    expect(selectTemplate(landmark, "day")).toEqual({
+      templatePath: "day.png",
+      threshold: 0.7,
+      lighting: "day",
+    });
+  });
+
+  it("uses an exact lighting match with its own threshold", () => {
+    expect(selectTemplate(landmark, "twilight")).toEqual({
+      templatePath: "twilight.png",
+      threshold: 0.5,
+      lighting: "twilight",
+    });
+  });
+
+  it("falls back to the nearest available lighting", () => {
+    expect(selectTemplate(landmark, "night").lighting).toBe("twilight");
+    expect(selectTemplate({ ...landmark, templates: undefined }, "night").lighting).toBe("day");
+  });
 });
 
 describe("analyzeFogLevel", () => {
   it("returns correct VisibilityResult structure", async () => {
     // This test uses mocking to avoid needing real webcam data
     const { analyzeFogLevel } = await import("../fog-detector.js");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-06-21T20:00:00Z"));
 
     const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-analyze-"));
     const templateBuffer = await createSolidPng(50, 50, { r: 255, g: 0, b: 0 });
@@ -129,6 +259,7 @@ describe("analyzeFogLevel", () => {
     // Create a config file
     const config = {
       location: "test-location",
+      region: "test-region",
       source: { type: "image", url: "https://example.com/cam.jpg" },
       landmarks: [
         {
@@ -160,6 +291,7 @@ describe("analyzeFogLevel", () => {
 
     expect(result).toMatchObject({
       location: "test-location",
+      status: "ok",
       totalLandmarks: 1,
       fogLevel: expect.stringMatching(/^(clear|light|moderate|heavy)$/),
     });
@@ -169,7 +301,91 @@ describe("analyzeFogLevel", () => {
     expect(result.landmarkDetails[0].name).toBe("test-landmark");
     expect(result.timestamp).toBeTruthy();
 
+    vi.useRealTimers();
     vi.restoreAllMocks();
     await fs.rm(tmpDir, { recursive: true, force: true });
   });
 });
+
+describe("analyzeFogLevel with frames it can't use", () => {
+  const projectRoot = path.resolve(import.meta.dirname, "../..");
+  const configPath = path.join(projectRoot, "data", "locations", "test-bad-frame.json");
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-bad-frame-"));
+    const templatePath = path.join(tmpDir, "landmark.png");
+    await fs.writeFile(templatePath, await createSolidPng(50, 50, { r: 255, g: 0, b: 0 }));
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        location: "test-bad-frame",
+        region: "test-region",
+        source: { type: "image", url: "https://example.com/cam.jpg" },
+        landmarks: [
+          { name: "tower", templatePath, region: { x: 100, y: 100, width: 50, height: 50 }, threshold: 0.5 },
+        ],
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(configPath, { force: true });
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("rejects a payload that isn't an image", async () => {
+    const { analyzeFogLevel } = await import("../fog-detector.js");
+    const result = await analyzeFogLevel("test-bad-frame", {
+      fetchImage: async () => Buffer.from("<html>CDN error</html>"),
+    });
+
+    expect(result).toMatchObject({
+      location: "test-bad-frame",
+      status: "error",
+      errorClass: "FrameRejected",
+      fogLevel: null,
+      statusReason: expect.stringMatching(/^Frame rejected: unreadable image/),
+    });
+  });
+
+  it("rejects a frame too small for the landmark regions", async () => {
+    const { analyzeFogLevel } = await import("../fog-detector.js");
+    const frame = await createImageWithRegion(120, 120, { x: 10, y: 10, width: 50, height: 50 });
+    const result = await analyzeFogLevel("test-bad-frame", { fetchImage: async () => frame });
+
+    expect(result).toMatchObject({
+      status: "error",
+      errorClass: "FrameRejected",
+      statusReason: expect.stringMatching(/^Frame rejected: couldn't compare tower/),
+    });
+  });
+});
+
+describe("failedReading", () => {
+  it("reports the location's region and camera without a fog level", () => {
+    const config = { location: "north", region: "golden-gate", camera: "salesforce-north", landmarks: [] };
+    const camera = { id: "salesforce-north" } as CameraInfo;
+    const result = failedReading(
+      config,
+      camera,
+      new Date("2026-06-21T20:00:00Z"),
+      "Check failed: ENOENT",
+      "Error"
+    );
+
+    expect(result).toMatchObject({
+      location: "north",
+      camera: "salesforce-north",
+      region: "golden-gate",
+      weight: 1,
+      status: "error",
+      statusReason: "Check failed: ENOENT",
+      errorClass: "Error",
+      fogLevel: null,
+      visibilityScore: null,
+      lighting: "day",
+      timestamp: "2026-06-21T20:00:00.000Z",
+    });
+  });
+});
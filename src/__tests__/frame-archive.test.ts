@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import sharp from "sharp";
+import { createImageWithRegion, createReading } from "./helpers.js";
+import {
+  archiveRun,
+  listArchivedRuns,
+  parseRunKey,
+  pruneArchive,
+  toRunKey,
+} from "../frame-archive.js";
+import type { LandmarkTemplate } from "../types.js";
+
+describe("run keys", () => {
+  it("round-trips a timestamp to the second", () => {
+    expect(toRunKey("2026-06-21T20:00:05.123Z")).toBe("2026-06-21T200005Z");
+    expect(parseRunKey("2026-06-21T200005Z")).toBe("2026-06-21T20:00:05.000Z");
+  });
+
+  it("ignores names that aren't runs", () => {
+    expect(parseRunKey("notes.txt")).toBeNull();
+  });
+});
+
+describe("frame archive", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "frame-archive-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("saves the frame, landmark crops and reading", async () => {
+    const region = { x: 20, y: 30, width: 40, height: 20 };
+    const frame = await createImageWithRegion(200, 100, region);
+    const landmark: LandmarkTemplate = {
+      name: "tower",
+      templatePath: "tower.png",
+      region,
+      threshold: 0.7,
+    };
+
+    const runDir = await archiveRun(dir, {
+      frame,
+      landmarks: [
+        { landmark, templatePath: "/tmp/tower.png", threshold: 0.7, offset: { x: 200, y: 0 } },
+      ],
+      reading: createReading({ location: "north", timestamp: "2026-06-21T20:00:05.123Z" }),
+    });
+
+    expect(runDir).toBe(path.join(dir, "north", "2026-06-21T200005Z"));
+    expect((await fs.readdir(runDir)).sort()).toEqual(["frame.png", "reading.json", "tower.png"]);
+    expect(await fs.readFile(path.join(runDir, "frame.png"))).toEqual(frame);
+    // An offset past the edge is clamped to the frame
+    const crop = await sharp(path.join(runDir, "tower.png")).metadata();
+    expect([crop.width, crop.height]).toEqual([40, 20]);
+    const saved = JSON.parse(await fs.readFile(path.join(runDir, "reading.json"), "utf-8"));
+    expect(saved.fogLevel).toBe("clear");
+  });
+
+  it("prunes by age and by runs per location", async () => {
+    const frame = await createImageWithRegion(20, 20, { x: 0, y: 0, width: 5, height: 5 });
+    for (const [location, timestamp] of [
+      ["north", "2026-05-01T12:00:00.000Z"],
+      ["north", "2026-06-20T12:00:00.000Z"],
+      ["north", "2026-06-21T12:00:00.000Z"],
+      ["west", "2026-06-21T12:00:00.000Z"],
+    ]) {
+      await archiveRun(dir, { frame, landmarks: [], reading: createReading({ location, timestamp }) });
+    }
+
+    const deleted = await pruneArchive(
+      dir,
+      { maxAgeDays: 30, maxRunsPerLocation: 1 },
+      new Date("2026-06-22T00:00:00Z")
+    );
+
+    expect(deleted.map((r) => `${r.location}/${r.key}`)).toEqual([
+      "north/2026-05-01T120000Z",
+      "north/2026-06-20T120000Z",
+    ]);
+    expect((await listArchivedRuns(dir)).map((r) => `${r.location}/${r.key}`)).toEqual([
+      "north/2026-06-21T120000Z",
+      "west/2026-06-21T120000Z",
+    ]);
+  });
+
+  it("treats a missing archive as empty", async () => {
+    expect(await pruneArchive(path.join(dir, "missing"), { maxAgeDays: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { createSolidPng, createImageWithRegion } from "./helpers.js";
+import { assessFrameQuality } from "../frame-quality.js";
+
+/**
+ * A frame with smooth gradients and a couple of buildings — enough texture
+ * to pass as a real camera view.
+ */
+async function createSceneFrame(width = 160, height = 96): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const building = (x > 30 && x < 50 && y > 40) || (x > 100 && x < 112 && y > 20);
+      const value = building ? 60 : 120 + Math.round(60 * Math.sin(x / 9) * Math.cos(y / 7));
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+/**
+ * A frame made of flat 8x8 blocks, like a keyframe starved of bitrate.
+ */
+async function createBlockyFrame(width = 160, height = 96): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const block = Math.floor(x / 8) * 31 + Math.floor(y / 8) * 17;
+      pixels[y * width + x] = 100 + (block % 40);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+describe("assessFrameQuality", () => {
+  it("accepts a normal frame and measures it", async () => {
+    const { quality, rejection } = await assessFrameQuality(await createSceneFrame());
+
+    expect(rejection).toBeUndefined();
+    expect(quality.width).toBe(160);
+    expect(quality.height).toBe(96);
+    expect(quality.brightness).toBeGreaterThan(50);
+    expect(quality.contrast).toBeGreaterThan(10);
+    expect(quality.blockiness).toBeLessThan(0.05);
+    expect(quality.hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("rejects a black frame", async () => {
+    const { rejection } = await assessFrameQuality(
+      await createSolidPng(160, 96, { r: 0, g: 0, b: 0 })
+    );
+    expect(rejection).toMatch(/^black frame/);
+  });
+
+  it("rejects a featureless slate", async () => {
+    const { rejection } = await assessFrameQuality(
+      await createSolidPng(160, 96, { r: 40, g: 60, b: 200 })
+    );
+    expect(rejection).toMatch(/^featureless frame/);
+  });
+
+  it("rejects a frame identical to the previous one", async () => {
+    const frame = await createSceneFrame();
+    const first = await assessFrameQuality(frame);
+    const second = await assessFrameQuality(frame, { previousHash: first.quality.hash });
+
+    expect(first.rejection).toBeUndefined();
+    expect(second.rejection).toMatch(/^frozen stream/);
+  });
+
+  it("accepts a dark night frame with lights in it", async () => {
+    const night = await createImageWithRegion(
+      160,
+      96,
+      { x: 60, y: 30, width: 12, height: 40 },
+      { r: 8, g: 8, b: 12 },
+      { r: 255, g: 200, b: 120 }
+    );
+    const { rejection } = await assessFrameQuality(night);
+    expect(rejection).toBeUndefined();
+  });
+
+  it("rejects a frame at the wrong resolution", async () => {
+    const { rejection } = await assessFrameQuality(await createSceneFrame(), {
+      expectedResolution: { width: 1280, height: 720 },
+    });
+    expect(rejection).toBe("unexpected resolution 160x96 (expected 1280x720)");
+  });
+
+  it("rejects a heavily block-compressed frame", async () => {
+    const { quality, rejection } = await assessFrameQuality(await createBlockyFrame());
+    expect(quality.blockiness).toBeGreaterThan(0.25);
+    expect(rejection).toMatch(/^heavily compressed frame/);
+  });
+});
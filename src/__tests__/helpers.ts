@@ -1,4 +1,5 @@
 import sharp from "sharp";
+import type { VisibilityResult } from "../types.js";
 
 /**
  * Generate a solid-color PNG buffer of the given dimensions.
@@ -56,3 +57,25 @@ export async function createImageWithRegion(
     .png()
     .toBuffer();
 }
+
+/**
+ * A usable clear-day reading from one camera; override whatever a test
+ * cares about.
+ */
+export function createReading(overrides: Partial<VisibilityResult> = {}): VisibilityResult {
+  return {
+    location: "cam",
+    region: "golden-gate",
+    weight: 1,
+    status: "ok",
+    landmarksVisible: 1,
+    totalLandmarks: 1,
+    visibilityScore: 100,
+    fogLevel: "clear",
+    timestamp: "2026-06-21T20:00:00.000Z",
+    sunElevation: 70,
+    lighting: "day",
+    landmarkDetails: [],
+    ...overrides,
+  };
+}
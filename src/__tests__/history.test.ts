@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+  checkHistoryInterval,
+  loadHistory,
+  localDayHours,
+  pacificDate,
+  pacificMonthAndHour,
+  toHistoricalReading,
+  updateHistoricalRange,
+  writeHistoricalReadings,
+  writeLocalHistory,
+} from "../history.js";
+import type {
+  HistoricalData,
+  HistoricalReading,
+  LocalHistoricalData,
+  RegionStatus,
+} from "../types.js";
+
+function reading(timestamp: string, visibilityScore = 0): HistoricalReading {
+  return {
+    timestamp,
+    regions: {
+      "golden-gate": {
+        status: "ok",
+        fogLevel: visibilityScore >= 80 ? "clear" : "heavy",
+        visibilityScore,
+        landmarksVisible: 0,
+        totalLandmarks: 3,
+      },
+    },
+  };
+}
+
+describe("toHistoricalReading", () => {
+  it("keeps each region's summary without its per-camera detail", () => {
+    const region: RegionStatus = {
+      region: "golden-gate",
+      status: "ok",
+      fogLevel: "light",
+      visibilityScore: 67,
+      timestamp: "2026-06-21T20:00:00.000Z",
+      landmarksVisible: 2,
+      totalLandmarks: 3,
+      fogCeiling: { minM: 100, maxM: 227, layer: "elevated" },
+      landmarks: [],
+      locations: [],
+    };
+
+    expect(toHistoricalReading([region])).toEqual({
+      timestamp: "2026-06-21T20:00:00.000Z",
+      regions: {
+        "golden-gate": {
+          status: "ok",
+          fogLevel: "light",
+          visibilityScore: 67,
+          landmarksVisible: 2,
+          totalLandmarks: 3,
+          fogCeiling: { minM: 100, maxM: 227, layer: "elevated" },
+        },
+      },
+    });
+  });
+});
+
+describe("Pacific-time days", () => {
+  it("dates timestamps in San Francisco", () => {
+    expect(pacificDate("2026-06-22T06:59:00.000Z")).toBe("2026-06-21");
+    expect(pacificDate("2026-06-22T07:00:00.000Z")).toBe("2026-06-22");
+    expect(pacificDate("2026-01-15T07:30:00.000Z")).toBe("2026-01-14");
+  });
+
+  it("uses daylight time in summer and standard time in winter", () => {
+    expect(pacificMonthAndHour(new Date("2026-07-01T15:00:00Z"))).toEqual({ month: 7, hour: 8 });
+    expect(pacificMonthAndHour(new Date("2026-01-01T15:00:00Z"))).toEqual({ month: 1, hour: 7 });
+  });
+
+  it("crosses the date line into the previous local month", () => {
+    expect(pacificMonthAndHour(new Date("2026-08-01T03:00:00Z"))).toEqual({ month: 7, hour: 20 });
+  });
+
+  it("has 23 hours when DST starts and 25 when it ends", () => {
+    const spring = localDayHours("2026-03-08");
+    expect(spring).toHaveLength(23);
+    expect(spring[0].toISOString()).toBe("2026-03-08T08:00:00.000Z");
+    expect(spring.at(-1)?.toISOString()).toBe("2026-03-09T06:00:00.000Z");
+
+    const fall = localDayHours("2026-11-01");
+    expect(fall).toHaveLength(25);
+    expect(fall[0].toISOString()).toBe("2026-11-01T07:00:00.000Z");
+    expect(fall.at(-1)?.toISOString()).toBe("2026-11-02T07:00:00.000Z");
+
+    expect(localDayHours("2026-06-21")).toHaveLength(24);
+  });
+});
+
+describe("history files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "history-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readDay = async (date: string): Promise<HistoricalData> =>
+    JSON.parse(await fs.readFile(path.join(dir, date), "utf-8"));
+
+  it("slots readings into their UTC day and hour, keeping other hours", async () => {
+    await writeHistoricalReadings(dir, [reading("2026-06-21T03:00:00.000Z")]);
+    const dates = await writeHistoricalReadings(dir, [
+      reading("2026-06-21T20:05:00.000Z"),
+      reading("2026-06-22T01:00:00.000Z"),
+    ]);
+
+    expect(dates).toEqual(["2026-06-21", "2026-06-22"]);
+    const day = await readDay("2026-06-21");
+    expect(day.hours).toHaveLength(24);
+    expect(day.hours[3]?.timestamp).toBe("2026-06-21T03:00:00.000Z");
+    expect(day.hours[20]?.timestamp).toBe("2026-06-21T20:05:00.000Z");
+    expect((await readDay("2026-06-22")).hours[1]).not.toBeNull();
+  });
+
+  it("replaces a reading in the same hour", async () => {
+    await writeHistoricalReadings(dir, [reading("2026-06-21T20:00:00.000Z", 0)]);
+    await writeHistoricalReadings(dir, [reading("2026-06-21T20:30:00.000Z", 100)]);
+
+    const hour = (await readDay("2026-06-21")).hours[20];
+    expect(hour?.regions["golden-gate"].visibilityScore).toBe(100);
+  });
+
+  it("keeps other regions when a reading in the same slot covers only some", async () => {
+    const both = reading("2026-06-21T20:00:00.000Z", 0);
+    both.regions.downtown = { ...both.regions["golden-gate"], visibilityScore: 40 };
+    await writeHistoricalReadings(dir, [both]);
+    await writeHistoricalReadings(dir, [reading("2026-06-21T20:10:00.000Z", 100)]);
+
+    const hour = (await readDay("2026-06-21")).hours[20];
+    expect(hour?.timestamp).toBe("2026-06-21T20:10:00.000Z");
+    expect(hour?.regions["golden-gate"].visibilityScore).toBe(100);
+    expect(hour?.regions.downtown.visibilityScore).toBe(40);
+  });
+
+  it("indexes the range of daily files", async () => {
+    await writeHistoricalReadings(dir, [
+      reading("2026-06-21T20:00:00.000Z"),
+      reading("2026-06-23T20:00:00.000Z"),
+    ]);
+    await updateHistoricalRange(dir);
+
+    const index = JSON.parse(await fs.readFile(path.join(dir, "index"), "utf-8"));
+    expect(index).toMatchObject({ startDate: "2026-06-21", endDate: "2026-06-23", totalDays: 2 });
+  });
+
+  it("keeps sub-hourly readings with an hourly rollup of the latest", async () => {
+    await writeHistoricalReadings(
+      dir,
+      [
+        reading("2026-06-21T20:00:00.000Z", 0),
+        reading("2026-06-21T20:15:00.000Z", 40),
+        reading("2026-06-21T20:45:00.000Z", 100),
+      ],
+      15
+    );
+
+    const day = await readDay("2026-06-21");
+    expect(day).toMatchObject({ version: 2, intervalMinutes: 15 });
+    expect(day.readings).toHaveLength(96);
+    expect(day.readings?.[81]?.timestamp).toBe("2026-06-21T20:15:00.000Z");
+    expect(day.readings?.[82]).toBeNull();
+    expect(day.hours).toHaveLength(24);
+    expect(day.hours[20]?.timestamp).toBe("2026-06-21T20:45:00.000Z");
+
+    expect((await loadHistory(dir)).map((r) => r.timestamp)).toHaveLength(3);
+    expect((await loadHistory(dir, { hourly: true })).map((r) => r.timestamp)).toEqual([
+      "2026-06-21T20:45:00.000Z",
+    ]);
+  });
+
+  it("upgrades hourly files and never coarsens a finer one", async () => {
+    const hourly: HistoricalData = { hours: Array(24).fill(null) };
+    hourly.hours[3] = reading("2026-06-21T03:00:00.000Z");
+    await fs.writeFile(path.join(dir, "2026-06-21"), JSON.stringify(hourly));
+    expect((await loadHistory(dir)).map((r) => r.timestamp)).toEqual(["2026-06-21T03:00:00.000Z"]);
+
+    await writeHistoricalReadings(dir, [reading("2026-06-21T03:10:00.000Z")], 10);
+    await writeHistoricalReadings(dir, [reading("2026-06-21T04:00:00.000Z")]);
+
+    const day = await readDay("2026-06-21");
+    expect(day.intervalMinutes).toBe(10);
+    expect(day.readings?.filter((r) => r !== null).map((r) => r.timestamp)).toEqual([
+      "2026-06-21T03:00:00.000Z",
+      "2026-06-21T03:10:00.000Z",
+      "2026-06-21T04:00:00.000Z",
+    ]);
+    expect(day.hours[3]?.timestamp).toBe("2026-06-21T03:10:00.000Z");
+  });
+
+  it("rejects intervals that don't divide the hour and unknown file versions", async () => {
+    expect(() => checkHistoryInterval(7)).toThrow("Invalid history interval 7");
+    expect(checkHistoryInterval(10)).toBe(10);
+
+    await fs.writeFile(path.join(dir, "2026-06-21"), JSON.stringify({ version: 3, hours: [] }));
+    await expect(loadHistory(dir)).rejects.toThrow("Unsupported history file version 3");
+  });
+
+  it("writes a local view of each Pacific day from the UTC files", async () => {
+    const readings = [
+      reading("2026-06-21T07:10:00.000Z"), // Midnight PDT
+      reading("2026-06-22T06:00:00.000Z"), // 11pm PDT, in the next UTC file
+    ];
+    await writeHistoricalReadings(dir, readings);
+    expect(await writeLocalHistory(dir, readings)).toEqual(["2026-06-21"]);
+
+    const day: LocalHistoricalData = JSON.parse(
+      await fs.readFile(path.join(dir, "local", "2026-06-21"), "utf-8")
+    );
+    expect(day.date).toBe("2026-06-21");
+    expect(day.timeZone).toBe("America/Los_Angeles");
+    expect(day.hours.map((h) => h.hour)).toEqual(Array.from({ length: 24 }, (_, i) => i));
+    expect(day.hours[0]).toMatchObject({
+      start: "2026-06-21T07:00:00.000Z",
+      utcOffset: "-07:00",
+      reading: { timestamp: "2026-06-21T07:10:00.000Z" },
+    });
+    expect(day.hours[23].reading?.timestamp).toBe("2026-06-22T06:00:00.000Z");
+    expect(day.hours.filter((h) => h.reading !== null)).toHaveLength(2);
+  });
+
+  it("labels the repeated hour when DST ends", async () => {
+    const readings = [reading("2026-11-01T08:00:00.000Z"), reading("2026-11-01T09:00:00.000Z")];
+    await writeHistoricalReadings(dir, readings);
+    await writeLocalHistory(dir, readings);
+
+    const day: LocalHistoricalData = JSON.parse(
+      await fs.readFile(path.join(dir, "local", "2026-11-01"), "utf-8")
+    );
+    expect(day.hours).toHaveLength(25);
+    expect(day.hours.slice(1, 3)).toMatchObject([
+      { hour: 1, utcOffset: "-07:00", reading: { timestamp: "2026-11-01T08:00:00.000Z" } },
+      { hour: 1, utcOffset: "-08:00", reading: { timestamp: "2026-11-01T09:00:00.000Z" } },
+    ]);
+  });
+
+  it("loads readings in time order, skipping empty hours, the index and local views", async () => {
+    await writeHistoricalReadings(dir, [
+      reading("2026-06-02T03:00:00.000Z"),
+      reading("2026-06-01T22:00:00.000Z"),
+    ]);
+    await writeLocalHistory(dir, [reading("2026-06-02T03:00:00.000Z")]);
+    await updateHistoricalRange(dir);
+
+    const readings = await loadHistory(dir);
+    expect(readings.map((r) => r.timestamp)).toEqual([
+      "2026-06-01T22:00:00.000Z",
+      "2026-06-02T03:00:00.000Z",
+    ]);
+    expect(await loadHistory(path.join(dir, "missing"))).toEqual([]);
+  });
+});
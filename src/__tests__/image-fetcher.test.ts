@@ -1,4 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { AddressInfo } from "node:net";
+import sharp from "sharp";
 import { createSolidPng } from "./helpers.js";
 
 // Create the mock for the promisified execFile before module loading.
@@ -13,11 +20,24 @@ vi.mock("node:child_process", () => {
   return { execFile: fn };
 });
 
-import { fetchWebcamImage } from "../image-fetcher.js";
+import {
+  EmptyImageError,
+  FetchTimeoutError,
+  FfmpegError,
+  HttpStatusError,
+  ImageFetchError,
+  fetchWebcamImage,
+  guessSourceType,
+} from "../image-fetcher.js";
+
+// No waiting between retries in tests
+const noBackoff = { backoffMs: 0 };
 
 describe("fetchWebcamImage", () => {
   beforeEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    mockExecFileAsync.mockReset();
   });
 
   describe("type: image", () => {
@@ -34,7 +54,10 @@ describe("fetchWebcamImage", () => {
         url: "https://example.com/cam.jpg",
       });
 
-      expect(mockFetch).toHaveBeenCalledWith("https://example.com/cam.jpg");
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://example.com/cam.jpg",
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
       expect(result).toBeInstanceOf(Buffer);
       expect(result.length).toBeGreaterThan(0);
     });
@@ -52,6 +75,8 @@ describe("fetchWebcamImage", () => {
       await expect(
         fetchWebcamImage({ type: "image", url: "https://example.com/missing.jpg" })
       ).rejects.toThrow("Failed to fetch image: 404 Not Found");
+      // A 404 isn't worth retrying
+      expect(fetch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -87,16 +112,253 @@ describe("fetchWebcamImage", () => {
       });
 
       await expect(
-        fetchWebcamImage({ type: "hls", url: "https://example.com/stream.m3u8" })
+        fetchWebcamImage({ type: "hls", url: "https://example.com/stream.m3u8" }, { retries: 0 })
+      ).rejects.toThrow(EmptyImageError);
+      await expect(
+        fetchWebcamImage({ type: "hls", url: "https://example.com/stream.m3u8" }, { retries: 0 })
       ).rejects.toThrow("ffmpeg returned empty output");
     });
 
-    it("propagates ffmpeg errors", async () => {
-      mockExecFileAsync.mockRejectedValue(new Error("ffmpeg crashed"));
+    it("propagates ffmpeg errors with ffmpeg's reason", async () => {
+      mockExecFileAsync.mockRejectedValue(
+        Object.assign(new Error("Command failed"), {
+          stderr: Buffer.from("ffmpeg version 6.1\nServer returned 403 Forbidden\n"),
+        })
+      );
+
+      const error = await fetchWebcamImage(
+        { type: "hls", url: "https://example.com/stream.m3u8" },
+        { ...noBackoff, retries: 1 }
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(FfmpegError);
+      expect(error.message).toBe(
+        "ffmpeg failed for https://example.com/stream.m3u8: Server returned 403 Forbidden (after 2 attempts)"
+      );
+      expect(error.attempts).toBe(2);
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it("passes the timeout to ffmpeg and reports a kill as a timeout", async () => {
+      mockExecFileAsync.mockRejectedValue(Object.assign(new Error("killed"), { killed: true }));
+
+      await expect(
+        fetchWebcamImage(
+          { type: "hls", url: "https://example.com/stream.m3u8" },
+          { timeoutMs: 5_000, retries: 0 }
+        )
+      ).rejects.toThrow(FetchTimeoutError);
+      expect(mockExecFileAsync).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Array),
+        expect.objectContaining({ timeout: 5_000 })
+      );
+    });
+
+    it("doesn't retry when ffmpeg isn't installed", async () => {
+      mockExecFileAsync.mockRejectedValue(
+        Object.assign(new Error("spawn ffmpeg ENOENT"), { code: "ENOENT" })
+      );
+
+      await expect(
+        fetchWebcamImage({ type: "hls", url: "https://example.com/stream.m3u8" }, noBackoff)
+      ).rejects.toThrow("spawn ffmpeg ENOENT");
+      expect(mockExecFileAsync).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("type: file", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "image-fetcher-"));
+    });
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads a single image by path or file:// URL", async () => {
+      const png = await createSolidPng(10, 10, { r: 255, g: 255, b: 0 });
+      const file = path.join(dir, "frame.png");
+      await fs.writeFile(file, png);
+
+      expect((await fetchWebcamImage({ type: "file", url: file })).equals(png)).toBe(true);
+      const byUrl = await fetchWebcamImage({ type: "file", url: pathToFileURL(file).href });
+      expect(byUrl.equals(png)).toBe(true);
+    });
+
+    it("reads the newest image in a directory of frames", async () => {
+      const frames = path.join(dir, "frames");
+      await fs.mkdir(frames);
+      const newest = await createSolidPng(10, 10, { r: 0, g: 255, b: 255 });
+      await fs.writeFile(path.join(frames, "0002.png"), newest);
+      await fs.writeFile(path.join(frames, "0001.png"), await createSolidPng(10, 10, { r: 1, g: 1, b: 1 }));
+      await fs.writeFile(path.join(frames, "notes.txt"), "not a frame");
+      const old = new Date("2026-06-21T18:00:00Z");
+      await fs.utimes(path.join(frames, "0001.png"), old, old);
+      await fs.utimes(path.join(frames, "notes.txt"), new Date(), new Date(Date.now() + 60_000));
+
+      const result = await fetchWebcamImage({ type: "file", url: frames });
+      expect(result.equals(newest)).toBe(true);
+    });
+
+    it("doesn't retry a missing path but does retry an empty directory", async () => {
+      const missing = await fetchWebcamImage(
+        { type: "file", url: path.join(dir, "missing.png") },
+        noBackoff
+      ).catch((e) => e);
+      expect(missing).toBeInstanceOf(ImageFetchError);
+      expect(missing.attempts).toBe(1);
+
+      await fs.mkdir(path.join(dir, "empty"));
+      await expect(
+        fetchWebcamImage({ type: "file", url: path.join(dir, "empty") }, noBackoff)
+      ).rejects.toThrow(/No images in .* \(after 3 attempts\)/);
+    });
+  });
+
+  describe("guessSourceType", () => {
+    it("guesses from the URL", () => {
+      expect(guessSourceType("https://example.com/live/cam.m3u8?token=1")).toBe("hls");
+      expect(guessSourceType("http://192.168.1.20/mjpg/video.mjpg")).toBe("mjpeg");
+      expect(guessSourceType("https://example.com/cam.jpg")).toBe("image");
+      expect(guessSourceType("replays/fog-bank")).toBe("file");
+      expect(guessSourceType("file:///tmp/frame.png")).toBe("file");
+    });
+  });
+
+  describe("against a stub server", () => {
+    // Each path answers with a scripted sequence of responses, then repeats the last
+    const scripts: Record<string, ((res: http.ServerResponse) => void)[]> = {};
+    const hits: Record<string, number> = {};
+    let server: http.Server;
+    let baseUrl: string;
+    let png: Buffer;
+
+    const status = (code: number) => (res: http.ServerResponse) => {
+      res.writeHead(code);
+      res.end();
+    };
+    const image = () => (res: http.ServerResponse) => {
+      res.writeHead(200, { "Content-Type": "image/png" });
+      res.end(png);
+    };
+    const hang = () => () => {};
+
+    beforeAll(async () => {
+      png = await createSolidPng(10, 10, { r: 0, g: 0, b: 255 });
+      server = http.createServer((req, res) => {
+        const script = scripts[req.url!] ?? [status(404)];
+        const hit = hits[req.url!] ?? 0;
+        hits[req.url!] = hit + 1;
+        script[Math.min(hit, script.length - 1)](res);
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const fetchPath = (path: string, options = {}) =>
+      fetchWebcamImage({ type: "image", url: `${baseUrl}${path}` }, { ...noBackoff, ...options });
+
+    it("retries a flaky response until an image arrives", async () => {
+      scripts["/flaky.png"] = [status(503), status(502), image()];
+
+      const result = await fetchPath("/flaky.png");
+      expect(result.equals(png)).toBe(true);
+      expect(hits["/flaky.png"]).toBe(3);
+    });
+
+    it("gives up after the configured retries with the last HTTP error", async () => {
+      scripts["/down.png"] = [status(503)];
+
+      const error = await fetchPath("/down.png", { retries: 3 }).catch((e) => e);
+      expect(error).toBeInstanceOf(HttpStatusError);
+      expect(error.status).toBe(503);
+      expect(error.attempts).toBe(4);
+      expect(hits["/down.png"]).toBe(4);
+    });
+
+    it("times out a server that never answers", async () => {
+      scripts["/hang.png"] = [hang(), image()];
+
+      const started = Date.now();
+      const result = await fetchPath("/hang.png", { timeoutMs: 200 });
+      expect(result.equals(png)).toBe(true);
+      expect(Date.now() - started).toBeLessThan(2_000);
+
+      scripts["/hang-forever.png"] = [hang()];
+      await expect(fetchPath("/hang-forever.png", { timeoutMs: 100, retries: 1 })).rejects.toThrow(
+        /Timed out after 100ms .* \(after 2 attempts\)/
+      );
+    });
+
+    it("treats an empty body as a failed fetch", async () => {
+      scripts["/empty.png"] = [(res) => res.end()];
+
+      await expect(fetchPath("/empty.png", { retries: 0 })).rejects.toThrow(EmptyImageError);
+    });
+
+    // A multipart stream that keeps sending frames until the client hangs up
+    const mjpeg =
+      (frames: Buffer[], withLength = true) =>
+      (res: http.ServerResponse) => {
+        res.writeHead(200, { "Content-Type": "multipart/x-mixed-replace; boundary=frame" });
+        const send = (frame: Buffer) => {
+          res.write(
+            `--frame\r\nContent-Type: image/jpeg\r\n` +
+              (withLength ? `Content-Length: ${frame.length}\r\n` : "") +
+              "\r\n"
+          );
+          // Split each frame across writes, as a real stream arrives
+          res.write(frame.subarray(0, 10));
+          res.write(Buffer.concat([frame.subarray(10), Buffer.from("\r\n")]));
+        };
+        frames.forEach(send);
+        const timer = setInterval(() => send(frames[frames.length - 1]), 20);
+        res.on("close", () => clearInterval(timer));
+      };
+
+    it("takes the first frame of an MJPEG stream", async () => {
+      const first = await sharp({
+        create: { width: 8, height: 8, channels: 3, background: { r: 200, g: 0, b: 0 } },
+      })
+        .jpeg()
+        .toBuffer();
+      const second = await sharp(first).flip().jpeg({ quality: 50 }).toBuffer();
+      scripts["/stream.mjpg"] = [mjpeg([first, second])];
+      scripts["/unsized.mjpg"] = [mjpeg([first, second], false)];
+
+      for (const stream of ["/stream.mjpg", "/unsized.mjpg"]) {
+        const result = await fetchWebcamImage(
+          { type: "mjpeg", url: `${baseUrl}${stream}` },
+          { timeoutMs: 2_000 }
+        );
+        expect(result.equals(first)).toBe(true);
+      }
+    });
+
+    it("treats an MJPEG stream that ends without a frame as a failed fetch", async () => {
+      scripts["/empty.mjpg"] = [(res) => res.end("--frame\r\n\r\n")];
 
       await expect(
-        fetchWebcamImage({ type: "hls", url: "https://example.com/stream.m3u8" })
-      ).rejects.toThrow("ffmpeg crashed");
+        fetchWebcamImage({ type: "mjpeg", url: `${baseUrl}/empty.mjpg` }, { retries: 0 })
+      ).rejects.toThrow(EmptyImageError);
+    });
+
+    it("backs off between retries", async () => {
+      scripts["/slow-recovery.png"] = [status(503), image()];
+      const random = vi.spyOn(Math, "random").mockReturnValue(1);
+
+      const started = Date.now();
+      await fetchPath("/slow-recovery.png", { backoffMs: 150 });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(140);
+      expect(random).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import type http from "node:http";
+import sharp from "sharp";
+import { createImageWithRegion } from "./helpers.js";
+import type { LocationConfig } from "../types.js";
+
+vi.mock("../image-fetcher.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../image-fetcher.js")>()),
+  fetchWebcamImage: vi.fn(),
+}));
+
+import { createPickerServer, type SaveRequest } from "../landmark-picker.js";
+import { fetchWebcamImage } from "../image-fetcher.js";
+
+const mockFetch = vi.mocked(fetchWebcamImage);
+const projectRoot = path.resolve(import.meta.dirname, "../..");
+
+describe("landmark picker server", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let frame: Buffer;
+
+  const save = (request: Partial<SaveRequest>) =>
+    fetch(`${baseUrl}/api/save`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        location: "test-picker-cam",
+        region: "test-region",
+        camera: "salesforce-north",
+        landmarks: [{ name: "tower", x: 10, y: 10, width: 50, height: 50, threshold: 0.6 }],
+        ...request,
+      }),
+    });
+
+  beforeAll(async () => {
+    frame = await createImageWithRegion(200, 200, { x: 10, y: 10, width: 50, height: 50 });
+    server = createPickerServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(path.join(projectRoot, "templates", "test-picker-cam"), { recursive: true, force: true });
+    await fs.rm(path.join(projectRoot, "data", "locations", "test-picker-cam.json"), { force: true });
+  });
+
+  it("serves the page and the camera catalog", async () => {
+    const page = await fetch(`${baseUrl}/`);
+    expect(page.headers.get("content-type")).toMatch(/text\/html/);
+    expect(await page.text()).toContain("Landmark picker");
+
+    const cameras = await (await fetch(`${baseUrl}/api/cameras`)).json();
+    expect(cameras.map((c: { id: string }) => c.id)).toContain("salesforce-north");
+  });
+
+  it("only accepts saves sent as JSON from its own page", async () => {
+    const body = JSON.stringify({ location: "test-picker-cam" });
+    const plain = await fetch(`${baseUrl}/api/save`, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body,
+    });
+    expect(plain.status).toBe(415);
+
+    const crossSite = await fetch(`${baseUrl}/api/save`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Origin: "https://example.com" },
+      body,
+    });
+    expect(crossSite.status).toBe(403);
+
+    const upload = await fetch(`${baseUrl}/api/frame`, {
+      method: "PUT",
+      headers: { Origin: "https://example.com" },
+      body: new Uint8Array(frame),
+    });
+    expect(upload.status).toBe(403);
+  });
+
+  it("refuses to save before a frame is loaded", async () => {
+    const res = await save({});
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toMatch(/Load a frame/);
+  });
+
+  it("fetches a live frame for a catalog camera", async () => {
+    mockFetch.mockResolvedValue(frame);
+
+    const res = await fetch(`${baseUrl}/api/frame?camera=salesforce-north`);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    const meta = await sharp(Buffer.from(await res.arrayBuffer())).metadata();
+    expect(meta.width).toBe(200);
+    expect(mockFetch).toHaveBeenCalledWith(expect.objectContaining({ type: "hls" }));
+
+    expect((await fetch(`${baseUrl}/api/frame?camera=nope`)).status).toBe(404);
+  });
+
+  it("guesses the type of a URL unless one is given", async () => {
+    mockFetch.mockResolvedValue(frame);
+    const url = "http://192.168.1.20/mjpg/video.mjpg";
+
+    await fetch(`${baseUrl}/api/frame?${new URLSearchParams({ url })}`);
+    expect(mockFetch).toHaveBeenLastCalledWith({ type: "mjpeg", url });
+
+    await fetch(`${baseUrl}/api/frame?${new URLSearchParams({ url, type: "image" })}`);
+    expect(mockFetch).toHaveBeenLastCalledWith({ type: "image", url });
+
+    const res = await fetch(`${baseUrl}/api/frame?${new URLSearchParams({ url, type: "rtsp" })}`);
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects uploads that aren't images", async () => {
+    const res = await fetch(`${baseUrl}/api/frame`, { method: "PUT", body: "not an image" });
+    expect(res.status).toBe(400);
+  });
+
+  it("saves templates and config from the uploaded frame", async () => {
+    await fetch(`${baseUrl}/api/frame`, { method: "PUT", body: new Uint8Array(frame) });
+    mockFetch.mockClear();
+
+    const res = await save({});
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      configPath: path.join("data", "locations", "test-picker-cam.json"),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    const config: LocationConfig = JSON.parse(
+      await fs.readFile(path.join(projectRoot, "data", "locations", "test-picker-cam.json"), "utf-8")
+    );
+    expect(config).toMatchObject({
+      location: "test-picker-cam",
+      region: "test-region",
+      camera: "salesforce-north",
+      landmarks: [
+        {
+          name: "tower",
+          templatePath: "./templates/test-picker-cam/tower.png",
+          region: { x: 10, y: 10, width: 50, height: 50 },
+          threshold: 0.6,
+        },
+      ],
+    });
+  });
+
+  it("refuses to save an invalid location and lists its issues", async () => {
+    const res = await save({
+      location: "test-picker-invalid",
+      landmarks: [
+        { name: "tower", x: 10, y: 10, width: 50, height: 50, threshold: 1.5 },
+        { name: "hill", x: 180, y: 10, width: 50, height: 50 },
+      ],
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).issues).toEqual([
+      { path: "landmarks[1].region", message: "50x50 at 180,10 extends past the 200x200 frame" },
+    ]);
+
+    const tooStrict = await save({
+      location: "test-picker-invalid",
+      landmarks: [{ name: "tower", x: 10, y: 10, width: 50, height: 50, threshold: 1.5 }],
+    });
+    expect((await tooStrict.json()).issues).toEqual([
+      { path: "landmarks[0].threshold", message: "must be <= 1" },
+    ]);
+
+    await expect(
+      fs.access(path.join(projectRoot, "data", "locations", "test-picker-invalid.json"))
+    ).rejects.toThrow();
+    await expect(fs.access(path.join(projectRoot, "templates", "test-picker-invalid"))).rejects.toThrow();
+  });
+
+  it("won't overwrite an existing config unless forced", async () => {
+    const res = await save({});
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toMatch(/already exists/);
+
+    expect((await save({ force: true })).status).toBe(200);
+  });
+
+  it("rejects names that can't be file names", async () => {
+    const res = await save({
+      force: true,
+      landmarks: [{ name: "../escape", x: 10, y: 10, width: 50, height: 50 }],
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/lowercase letters, digits and dashes/);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { extractClearingSamples, predictClearing } from "../prediction.js";
+import type { FogLevel, HistoricalReading, RegionStatus } from "../types.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function reading(time: number, fogLevel: FogLevel, visibilityScore: number): HistoricalReading {
+  return {
+    timestamp: new Date(time).toISOString(),
+    regions: {
+      "golden-gate": {
+        status: "ok",
+        fogLevel,
+        visibilityScore,
+        landmarksVisible: 0,
+        totalLandmarks: 3,
+      },
+    },
+  };
+}
+
+/**
+ * Foggy mornings starting at 8am PDT (15:00 UTC) that clear after
+ * `hoursUntilClear` hours, one per day in June.
+ */
+function mornings(clearAfter: number[]): HistoricalReading[] {
+  return clearAfter.flatMap((hours, day) => {
+    const start = Date.UTC(2026, 5, 1 + day, 15);
+    return Array.from({ length: hours + 1 }, (_, h) =>
+      h === hours
+        ? reading(start + h * HOUR_MS, "clear", 100)
+        : reading(start + h * HOUR_MS, "heavy", 0)
+    );
+  });
+}
+
+function region(overrides: Partial<RegionStatus>): RegionStatus {
+  return {
+    region: "golden-gate",
+    status: "ok",
+    fogLevel: "heavy",
+    visibilityScore: 0,
+    timestamp: "2026-06-29T15:00:00.000Z",
+    landmarksVisible: 0,
+    totalLandmarks: 3,
+    landmarks: [],
+    locations: [],
+    ...overrides,
+  };
+}
+
+describe("extractClearingSamples", () => {
+  it("measures how long each foggy reading took to clear", () => {
+    const samples = extractClearingSamples(mornings([3]), "golden-gate");
+    expect(samples.map((s) => s.hoursUntilClear)).toEqual([3, 2, 1]);
+    expect(samples[0]).toMatchObject({ month: 6, hour: 8, fogLevel: "heavy" });
+  });
+
+  it("drops samples whose outcome is hidden by a gap in the readings", () => {
+    const start = Date.UTC(2026, 5, 1, 15);
+    const samples = extractClearingSamples(
+      [reading(start, "heavy", 0), reading(start + 5 * HOUR_MS, "clear", 100)],
+      "golden-gate"
+    );
+    expect(samples).toHaveLength(0);
+  });
+
+  it("records fog that outlasts the horizon as not clearing", () => {
+    const start = Date.UTC(2026, 5, 1, 15);
+    const foggyDay = Array.from({ length: 26 }, (_, h) =>
+      reading(start + h * HOUR_MS, "heavy", 0)
+    );
+    const [first] = extractClearingSamples(foggyDay, "golden-gate");
+    expect(first.hoursUntilClear).toBeNull();
+  });
+
+  it("skips readings that couldn't be judged", () => {
+    const start = Date.UTC(2026, 5, 1, 15);
+    const dark = reading(start, "heavy", 0);
+    dark.regions["golden-gate"] = {
+      ...dark.regions["golden-gate"],
+      status: "indeterminate",
+      fogLevel: null,
+      visibilityScore: null,
+    };
+    const samples = extractClearingSamples(
+      [dark, reading(start + HOUR_MS, "heavy", 0), reading(start + 2 * HOUR_MS, "clear", 100)],
+      "golden-gate"
+    );
+    expect(samples.map((s) => s.hoursUntilClear)).toEqual([1]);
+  });
+});
+
+describe("predictClearing", () => {
+  it("predicts the usual burn-off time for this hour and month", () => {
+    const history = mornings([3, 3, 3, 3, 3, 3, 3, 3, 3, 3]);
+    // 7am, so only the 8am starts fall within the hour window
+    const prediction = predictClearing(region({ timestamp: "2026-06-29T14:00:00.000Z" }), history);
+
+    expect(prediction?.hoursUntilClear).toBe(3);
+    expect(prediction?.estimatedClearTime).toBe("2026-06-29T17:00:00.000Z");
+    expect(prediction?.message).toBe("Expected to clear in about 3 hours");
+    expect(prediction?.basedOnSamples).toBe(10);
+    expect(prediction?.confidence).toBeGreaterThan(0);
+    expect(prediction?.confidence).toBeLessThanOrEqual(100);
+  });
+
+  it("brings the estimate forward when visibility is already rising", () => {
+    const history = mornings([4, 4, 4, 4, 4, 4, 4, 4, 4, 4]);
+    const now = Date.UTC(2026, 5, 29, 15);
+    const rising = [
+      reading(now - 2 * HOUR_MS, "heavy", 0),
+      reading(now - HOUR_MS, "moderate", 30),
+    ];
+    const flat = predictClearing(region({}), history);
+    const improving = predictClearing(
+      region({ fogLevel: "light", visibilityScore: 60 }),
+      [...history, ...rising]
+    );
+
+    expect(improving?.hoursUntilClear).toBeLessThan(flat?.hoursUntilClear as number);
+  });
+
+  it("reports the sample count without an estimate when history is thin", () => {
+    const prediction = predictClearing(region({}), mornings([3, 3]));
+    expect(prediction).toEqual({
+      estimatedClearTime: null,
+      hoursUntilClear: null,
+      confidence: 0,
+      basedOnSamples: 4,
+      message: "Not enough history to predict clearing (4 similar readings)",
+    });
+  });
+
+  it("ignores history from other regions and seasons", () => {
+    const history = mornings([3, 3, 3, 3, 3, 3]).map((r) => ({
+      ...r,
+      timestamp: r.timestamp.replace("2026-06", "2026-01"),
+    }));
+    expect(predictClearing(region({}), history)?.basedOnSamples).toBe(0);
+    expect(
+      predictClearing(region({ region: "downtown" }), mornings([3, 3, 3]))?.basedOnSamples
+    ).toBe(0);
+  });
+
+  it("has nothing to predict for clear or unusable readings", () => {
+    const history = mornings([3, 3, 3, 3, 3]);
+    expect(predictClearing(region({ fogLevel: "clear", visibilityScore: 100 }), history)).toBeNull();
+    expect(
+      predictClearing(region({ status: "error", fogLevel: null, visibilityScore: null }), history)
+    ).toBeNull();
+  });
+});
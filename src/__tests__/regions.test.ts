@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { aggregateRegions, markStaleRegions } from "../regions.js";
+import { createReading } from "./helpers.js";
+
+describe("aggregateRegions", () => {
+  it("weights each camera's score within its region", () => {
+    const [region] = aggregateRegions([
+      createReading({ location: "north", visibilityScore: 100, landmarksVisible: 2, totalLandmarks: 2, weight: 3 }),
+      createReading({ location: "west", visibilityScore: 0, landmarksVisible: 0, totalLandmarks: 2, weight: 1 }),
+    ]);
+
+    expect(region.region).toBe("golden-gate");
+    expect(region.status).toBe("ok");
+    expect(region.visibilityScore).toBe(75);
+    expect(region.fogLevel).toBe("light");
+    expect(region.landmarksVisible).toBe(2);
+    expect(region.totalLandmarks).toBe(4);
+    expect(region.locations.map((l) => l.location)).toEqual(["north", "west"]);
+  });
+
+  it("keeps regions separate", () => {
+    const regions = aggregateRegions([
+      createReading({ location: "a", region: "golden-gate" }),
+      createReading({ location: "b", region: "downtown" }),
+    ]);
+    expect(regions.map((r) => r.region)).toEqual(["golden-gate", "downtown"]);
+  });
+
+  it("uses the working camera when another fails", () => {
+    const [region] = aggregateRegions([
+      createReading({ location: "north", visibilityScore: 100, fogLevel: "clear" }),
+      createReading({
+        location: "west",
+        status: "error",
+        statusReason: "Fetch failed: timeout",
+        visibilityScore: null,
+        fogLevel: null,
+        timestamp: "2026-06-21T20:00:05.000Z",
+      }),
+    ]);
+
+    expect(region.status).toBe("ok");
+    expect(region.visibilityScore).toBe(100);
+    expect(region.fogLevel).toBe("clear");
+    expect(region.timestamp).toBe("2026-06-21T20:00:05.000Z");
+    expect(region.locations[1]).toMatchObject({
+      location: "west",
+      status: "error",
+      statusReason: "Fetch failed: timeout",
+    });
+  });
+
+  it("reports an error when every camera fails", () => {
+    const [region] = aggregateRegions([
+      createReading({ location: "north", status: "error", statusReason: "Fetch failed: timeout", visibilityScore: null, fogLevel: null }),
+      createReading({ location: "west", status: "error", statusReason: "Frame rejected: black frame", visibilityScore: null, fogLevel: null }),
+    ]);
+
+    expect(region.status).toBe("error");
+    expect(region.fogLevel).toBeNull();
+    expect(region.visibilityScore).toBeNull();
+    expect(region.statusReason).toBe(
+      "north: Fetch failed: timeout; west: Frame rejected: black frame"
+    );
+  });
+
+  it("prefers indeterminate over error when it was only too dark", () => {
+    const [region] = aggregateRegions([
+      createReading({ location: "north", status: "indeterminate", statusReason: "too dark", visibilityScore: null, fogLevel: null }),
+      createReading({ location: "west", status: "error", statusReason: "Fetch failed", visibilityScore: null, fogLevel: null }),
+    ]);
+
+    expect(region.status).toBe("indeterminate");
+    expect(region.statusReason).toBe("too dark");
+  });
+});
+
+describe("markStaleRegions", () => {
+  it("flags old readings and carries over regions missing from this run", () => {
+    const now = new Date("2026-06-21T20:30:00.000Z");
+    const current = aggregateRegions([createReading({ timestamp: "2026-06-21T20:00:00.000Z" })]);
+    const previous = aggregateRegions([
+      createReading({ region: "golden-gate", timestamp: "2026-06-21T19:00:00.000Z" }),
+      createReading({ region: "downtown", timestamp: "2026-06-21T17:00:00.000Z" }),
+    ]);
+
+    const regions = markStaleRegions(current, previous, now);
+    expect(regions.map((r) => [r.region, r.timestamp, r.stale])).toEqual([
+      ["golden-gate", "2026-06-21T20:00:00.000Z", false],
+      ["downtown", "2026-06-21T17:00:00.000Z", true],
+    ]);
+
+    // A tighter limit makes this run's reading stale too
+    expect(markStaleRegions(current, [], now, 10 * 60 * 1000)[0].stale).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createImageWithRegion, createSolidPng } from "./helpers.js";
+import {
+  findReplayFrames,
+  parseFrameTimestamp,
+  replayFrames,
+} from "../replay.js";
+import type { LocationConfig } from "../types.js";
+
+describe("parseFrameTimestamp", () => {
+  it("reads archive keys, ISO times and snapshot names as UTC", () => {
+    expect(parseFrameTimestamp("2026-06-21T200005Z")).toBe("2026-06-21T20:00:05.000Z");
+    expect(parseFrameTimestamp("2026-06-21T20:00:05.123Z.jpg")).toBe("2026-06-21T20:00:05.000Z");
+    expect(parseFrameTimestamp("2026-06-01T1600.png")).toBe("2026-06-01T16:00:00.000Z");
+  });
+
+  it("rejects other names", () => {
+    expect(parseFrameTimestamp("labels.json")).toBeNull();
+    expect(parseFrameTimestamp("2026-13-45T9999Z")).toBeNull();
+  });
+});
+
+describe("replay", () => {
+  const region = { x: 20, y: 20, width: 60, height: 60 };
+  const locationsDir = path.resolve(import.meta.dirname, "..", "..", "data", "locations");
+  const configPath = path.join(locationsDir, "replay-test.json");
+  let tmpDir: string;
+  let framesDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "replay-"));
+    framesDir = path.join(tmpDir, "frames");
+
+    const templatePath = path.join(tmpDir, "landmark.png");
+    await fs.writeFile(templatePath, await createSolidPng(60, 60, { r: 255, g: 0, b: 0 }));
+    const config: LocationConfig = {
+      location: "replay-test",
+      region: "test-region",
+      source: { type: "image", url: "https://example.com/cam.jpg" },
+      landmarks: [{ name: "red-landmark", templatePath, region, threshold: 0.5 }],
+    };
+    await fs.writeFile(configPath, JSON.stringify(config));
+
+    const clear = await createImageWithRegion(200, 200, region);
+    const foggy = await createImageWithRegion(
+      200,
+      200,
+      { x: 120, y: 150, width: 80, height: 50 },
+      { r: 180, g: 180, b: 180 },
+      { r: 70, g: 70, b: 70 }
+    );
+    const locationDir = path.join(framesDir, "replay-test");
+    await fs.mkdir(path.join(locationDir, "2026-06-21T171500Z"), { recursive: true });
+    // Midday PDT, so day templates apply
+    await fs.writeFile(path.join(locationDir, "2026-06-21T170000Z.png"), clear);
+    await fs.writeFile(path.join(locationDir, "2026-06-21T171500Z", "frame.png"), foggy);
+    await fs.writeFile(path.join(locationDir, "2026-06-21T190000Z.png"), clear);
+    await fs.writeFile(path.join(locationDir, "2026-06-23T190000Z.png"), clear);
+    await fs.writeFile(path.join(locationDir, "notes.txt"), "not a frame");
+  });
+
+  afterAll(async () => {
+    await fs.rm(configPath, { force: true });
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("finds flat and archived frames within the date range", async () => {
+    const frames = await findReplayFrames(framesDir, { from: "2026-06-21", to: "2026-06-22" });
+
+    expect(frames.map((f) => [f.location, f.timestamp, path.basename(f.file)])).toEqual([
+      ["replay-test", "2026-06-21T17:00:00.000Z", "2026-06-21T170000Z.png"],
+      ["replay-test", "2026-06-21T17:15:00.000Z", "frame.png"],
+      ["replay-test", "2026-06-21T19:00:00.000Z", "2026-06-21T190000Z.png"],
+    ]);
+  });
+
+  it("rebuilds one reading per hour from each location's latest frame", async () => {
+    const frames = await findReplayFrames(framesDir, { from: "2026-06-21", to: "2026-06-21" });
+    const replayed: string[] = [];
+    const readings = await replayFrames(frames, (frame) => replayed.push(frame.timestamp));
+
+    expect(replayed).toEqual(["2026-06-21T17:15:00.000Z", "2026-06-21T19:00:00.000Z"]);
+    expect(readings.map((r) => r.timestamp)).toEqual([
+      "2026-06-21T17:15:00.000Z",
+      "2026-06-21T19:00:00.000Z",
+    ]);
+    expect(readings[0].regions["test-region"].fogLevel).toBe("heavy");
+    expect(readings[1].regions["test-region"].fogLevel).toBe("clear");
+  });
+
+  it("keeps every frame at a finer interval", async () => {
+    const frames = await findReplayFrames(framesDir, { from: "2026-06-21", to: "2026-06-21" });
+    const readings = await replayFrames(frames, undefined, 15);
+
+    expect(readings.map((r) => [r.timestamp, r.regions["test-region"].fogLevel])).toEqual([
+      ["2026-06-21T17:00:00.000Z", "clear"],
+      ["2026-06-21T17:15:00.000Z", "heavy"],
+      ["2026-06-21T19:00:00.000Z", "clear"],
+    ]);
+  });
+});
@@ -11,8 +11,14 @@ vi.mock("../image-fetcher.js", () => ({
   fetchWebcamImage: vi.fn(),
 }));
 
-import { createTemplateWithCoordinates } from "../setup-templates.js";
+import {
+  addLightingTemplates,
+  createTemplateWithCoordinates,
+  loadLandmarkBoxes,
+  parseLandmarkBox,
+} from "../setup-templates.js";
 import { fetchWebcamImage } from "../image-fetcher.js";
+import { ConfigValidationError } from "../config-validation.js";
 
 const mockFetch = vi.mocked(fetchWebcamImage);
 
@@ -48,6 +54,7 @@ describe("createTemplateWithCoordinates", () => {
     await createTemplateWithCoordinates(
       { type: "image", url: "https://example.com/cam.jpg" },
       "test-cam",
+      "test-region",
       [
         { name: "landmark-a", x: 50, y: 50, width: 80, height: 60 },
         { name: "landmark-b", x: 100, y: 100, width: 40, height: 30, threshold: 0.85 },
@@ -86,6 +93,7 @@ describe("createTemplateWithCoordinates", () => {
     const configData = JSON.parse(await fs.readFile(configPath, "utf-8")) as LocationConfig;
 
     expect(configData.location).toBe("test-cam");
+    expect(configData.region).toBe("test-region");
     expect(configData.source).toEqual({ type: "image", url: "https://example.com/cam.jpg" });
     expect(configData.landmarks).toHaveLength(2);
 
@@ -116,6 +124,7 @@ describe("createTemplateWithCoordinates", () => {
     await createTemplateWithCoordinates(
       { type: "hls", url: "https://example.com/stream.m3u8" },
       "test-hls-cam",
+      "test-region",
       [{ name: "green-spot", x: 10, y: 10, width: 50, height: 50 }]
     );
 
@@ -128,7 +137,7 @@ describe("createTemplateWithCoordinates", () => {
     const projectRoot = path.resolve(import.meta.dirname, "../..");
     const configPath = path.join(projectRoot, "data", "locations", "test-hls-cam.json");
     const configData = JSON.parse(await fs.readFile(configPath, "utf-8")) as LocationConfig;
-    expect(configData.source.type).toBe("hls");
+    expect(configData.source?.type).toBe("hls");
 
     // Clean up
     await fs.rm(path.join(projectRoot, "templates", "test-hls-cam"), {
@@ -137,4 +146,191 @@ describe("createTemplateWithCoordinates", () => {
     });
     await fs.rm(configPath, { force: true });
   });
+
+  it("adds night templates to an existing location config", async () => {
+    const dayImage = await createImageWithRegion(
+      200,
+      200,
+      { x: 10, y: 10, width: 50, height: 50 },
+      { r: 128, g: 128, b: 128 },
+      { r: 255, g: 0, b: 0 }
+    );
+    mockFetch.mockResolvedValue(dayImage);
+    await createTemplateWithCoordinates(
+      { type: "image", url: "https://example.com/cam.jpg" },
+      "test-night-cam",
+      "test-region",
+      [{ name: "tower", x: 10, y: 10, width: 50, height: 50 }]
+    );
+
+    const nightImage = await createImageWithRegion(
+      200,
+      200,
+      { x: 10, y: 10, width: 50, height: 50 },
+      { r: 5, g: 5, b: 5 },
+      { r: 255, g: 255, b: 0 }
+    );
+    mockFetch.mockResolvedValue(nightImage);
+
+    await addLightingTemplates("test-night-cam", "night", { tower: 0.4 });
+    // Running again replaces rather than duplicates the night template
+    await addLightingTemplates("test-night-cam", "night", { tower: 0.4 });
+
+    const projectRoot = path.resolve(import.meta.dirname, "../..");
+    const configPath = path.join(projectRoot, "data", "locations", "test-night-cam.json");
+    const configData = JSON.parse(await fs.readFile(configPath, "utf-8")) as LocationConfig;
+
+    expect(configData.landmarks[0].templatePath).toBe("./templates/test-night-cam/tower.png");
+    expect(configData.landmarks[0].templates).toEqual([
+      {
+        lighting: "night",
+        templatePath: "./templates/test-night-cam/tower-night.png",
+        threshold: 0.4,
+      },
+    ]);
+
+    const nightTemplate = path.join(projectRoot, "templates", "test-night-cam", "tower-night.png");
+    const meta = await sharp(nightTemplate).metadata();
+    expect(meta.width).toBe(50);
+    expect(meta.height).toBe(50);
+
+    // Clean up
+    await fs.rm(path.join(projectRoot, "templates", "test-night-cam"), {
+      recursive: true,
+      force: true,
+    });
+    await fs.rm(configPath, { force: true });
+  });
+
+  it("crops from a saved snapshot without fetching", async () => {
+    const snapshot = await createImageWithRegion(
+      200,
+      200,
+      { x: 10, y: 10, width: 50, height: 50 },
+      { r: 128, g: 128, b: 128 },
+      { r: 255, g: 0, b: 0 }
+    );
+    mockFetch.mockClear();
+
+    await createTemplateWithCoordinates(
+      { type: "hls", url: "https://example.com/stream.m3u8" },
+      "test-snapshot-cam",
+      "test-region",
+      [{ name: "tower", x: 10, y: 10, width: 50, height: 50 }],
+      snapshot
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    const projectRoot = path.resolve(import.meta.dirname, "../..");
+    const meta = await sharp(
+      path.join(projectRoot, "templates", "test-snapshot-cam", "tower.png")
+    ).metadata();
+    expect(meta.width).toBe(50);
+
+    await fs.rm(path.join(projectRoot, "templates", "test-snapshot-cam"), {
+      recursive: true,
+      force: true,
+    });
+    await fs.rm(path.join(projectRoot, "data", "locations", "test-snapshot-cam.json"), {
+      force: true,
+    });
+  });
+
+  it("rejects a landmark box outside the frame", async () => {
+    const snapshot = await createImageWithRegion(100, 100, { x: 0, y: 0, width: 10, height: 10 });
+
+    await expect(
+      createTemplateWithCoordinates(
+        { type: "image", url: "https://example.com/cam.jpg" },
+        "test-outside-cam",
+        "test-region",
+        [{ name: "tower", x: 80, y: 10, width: 50, height: 50 }],
+        snapshot
+      )
+    ).rejects.toThrow("landmarks[0].region: 50x50 at 80,10 extends past the 100x100 frame");
+
+    const projectRoot = path.resolve(import.meta.dirname, "../..");
+    await expect(fs.access(path.join(projectRoot, "templates", "test-outside-cam"))).rejects.toThrow();
+  });
+
+  it("adds no lighting templates when the updated config is invalid", async () => {
+    const image = await createImageWithRegion(200, 200, { x: 10, y: 10, width: 50, height: 50 });
+    await createTemplateWithCoordinates(
+      { type: "image", url: "https://example.com/cam.jpg" },
+      "test-night-invalid-cam",
+      "test-region",
+      [{ name: "tower", x: 10, y: 10, width: 50, height: 50 }],
+      image
+    );
+    const projectRoot = path.resolve(import.meta.dirname, "../..");
+    const configPath = path.join(projectRoot, "data", "locations", "test-night-invalid-cam.json");
+    const saved = await fs.readFile(configPath, "utf-8");
+
+    try {
+      await expect(
+        addLightingTemplates("test-night-invalid-cam", "night", { tower: 5 }, image)
+      ).rejects.toMatchObject({
+        issues: [{ path: "landmarks[0].templates[0].threshold", message: "must be <= 1" }],
+      });
+      expect(await fs.readFile(configPath, "utf-8")).toBe(saved);
+      await expect(
+        fs.access(path.join(projectRoot, "templates", "test-night-invalid-cam", "tower-night.png"))
+      ).rejects.toThrow();
+    } finally {
+      await fs.rm(path.join(projectRoot, "templates", "test-night-invalid-cam"), {
+        recursive: true,
+        force: true,
+      });
+      await fs.rm(configPath, { force: true });
+    }
+  });
+
+  it("writes nothing when the config is invalid", async () => {
+    const snapshot = await createImageWithRegion(100, 100, { x: 0, y: 0, width: 10, height: 10 });
+
+    const setup = createTemplateWithCoordinates(
+      { type: "image", url: "https://example.com/cam.jpg" },
+      "test-invalid-cam",
+      "test-region",
+      [{ name: "tower", x: 10, y: 10, width: 20, height: 20, threshold: 1.5 }],
+      snapshot
+    );
+
+    await expect(setup).rejects.toBeInstanceOf(ConfigValidationError);
+    await expect(setup).rejects.toMatchObject({
+      issues: [{ path: "landmarks[0].threshold", message: "must be <= 1" }],
+    });
+    const projectRoot = path.resolve(import.meta.dirname, "../..");
+    await expect(fs.access(path.join(projectRoot, "templates", "test-invalid-cam"))).rejects.toThrow();
+    await expect(
+      fs.access(path.join(projectRoot, "data", "locations", "test-invalid-cam.json"))
+    ).rejects.toThrow();
+  });
+});
+
+describe("landmark boxes", () => {
+  it("parses name:x,y,width,height with an optional threshold", () => {
+    expect(parseLandmarkBox("gg-bridge-south-tower:400,260,80,160")).toEqual({
+      name: "gg-bridge-south-tower",
+      x: 400,
+      y: 260,
+      width: 80,
+      height: 160,
+    });
+    expect(parseLandmarkBox("tower:1,2,3,4:0.55").threshold).toBe(0.55);
+    expect(() => parseLandmarkBox("tower:1,2,3")).toThrow(/expected name:x,y,width,height/);
+  });
+
+  it("loads boxes from a file and names missing fields", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-boxes-"));
+    const good = path.join(dir, "good.json");
+    const bad = path.join(dir, "bad.json");
+    await fs.writeFile(good, JSON.stringify([{ name: "tower", x: 1, y: 2, width: 3, height: 4 }]));
+    await fs.writeFile(bad, JSON.stringify([{ name: "tower", x: 1, y: 2 }]));
+
+    expect(await loadLandmarkBoxes(good)).toHaveLength(1);
+    await expect(loadLandmarkBoxes(bad)).rejects.toThrow("landmark 0 is missing width, height");
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
 });
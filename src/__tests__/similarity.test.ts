@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { compareImages, type GrayImage } from "../similarity.js";
+import type { SimilarityMetric } from "../types.js";
+
+const METRICS: SimilarityMetric[] = ["pixelmatch", "ssim", "ncc", "edge"];
+
+/**
+ * A 40x40 test pattern: a bright tower on a darker background.
+ */
+function towerImage(transform: (value: number) => number = (v) => v): GrayImage {
+  const width = 40;
+  const height = 40;
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const isTower = x >= 15 && x < 25 && y >= 5;
+      const value = isTower ? 220 : 40 + (y * 2);
+      data[y * width + x] = Math.round(transform(value));
+    }
+  }
+  return { data, width, height };
+}
+
+function flatImage(value: number): GrayImage {
+  return { data: new Uint8Array(40 * 40).fill(value), width: 40, height: 40 };
+}
+
+describe("compareImages", () => {
+  it.each(METRICS)("%s scores identical images as fully similar", (metric) => {
+    const result = compareImages(metric, towerImage(), towerImage());
+    expect(result.similarity).toBeCloseTo(1, 5);
+  });
+
+  it.each(METRICS)("%s scores a featureless crop as dissimilar", (metric) => {
+    const result = compareImages(metric, flatImage(180), towerImage());
+    expect(result.similarity).toBeLessThan(0.5);
+  });
+
+  it("ncc and edge tolerate a contrast drop that pixelmatch does not", () => {
+    // Haze: compress contrast towards grey without hiding the structure
+    const hazy = towerImage((v) => 128 + (v - 128) * 0.4);
+
+    expect(compareImages("pixelmatch", hazy, towerImage()).similarity).toBeLessThan(0.5);
+    expect(compareImages("ncc", hazy, towerImage()).similarity).toBeGreaterThan(0.95);
+    expect(compareImages("edge", hazy, towerImage()).similarity).toBeGreaterThan(0.95);
+  });
+
+  it("reports the metric's native score alongside similarity", () => {
+    const inverted = towerImage((v) => 255 - v);
+    const result = compareImages("ncc", inverted, towerImage());
+
+    expect(result.rawScore).toBeCloseTo(-1, 5);
+    expect(result.similarity).toBe(0);
+  });
+
+  it("reports the differing pixel count as the pixelmatch raw score", () => {
+    const result = compareImages("pixelmatch", flatImage(0), flatImage(255));
+    expect(result.rawScore).toBe(40 * 40);
+  });
+
+  it("rejects images of different sizes", () => {
+    const small: GrayImage = { data: new Uint8Array(100), width: 10, height: 10 };
+    expect(() => compareImages("ssim", small, towerImage())).toThrow(
+      "Image sizes do not match"
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  SAN_FRANCISCO,
+  getLightingCondition,
+  getSunElevation,
+} from "../solar.js";
+
+describe("getSunElevation", () => {
+  it("puts the sun high in the sky at San Francisco's summer solar noon", () => {
+    // Solar noon in SF is around 20:13 UTC in late June; max elevation ≈ 75.7°
+    const elevation = getSunElevation(
+      new Date("2026-06-21T20:13:00Z"),
+      SAN_FRANCISCO
+    );
+    expect(elevation).toBeGreaterThan(74);
+    expect(elevation).toBeLessThan(77);
+  });
+
+  it("puts the sun well below the horizon at local midnight", () => {
+    const elevation = getSunElevation(
+      new Date("2026-06-22T07:13:00Z"),
+      SAN_FRANCISCO
+    );
+    expect(elevation).toBeLessThan(-20);
+  });
+
+  it("puts the sun near the horizon at sunset", () => {
+    // Sunset in SF on 2026-01-15 is about 17:17 PST (01:17 UTC next day)
+    const elevation = getSunElevation(
+      new Date("2026-01-16T01:17:00Z"),
+      SAN_FRANCISCO
+    );
+    expect(Math.abs(elevation)).toBeLessThan(1.5);
+  });
+});
+
+describe("getLightingCondition", () => {
+  it("classifies elevations into day, twilight and night", () => {
+    expect(getLightingCondition(45)).toBe("day");
+    expect(getLightingCondition(6)).toBe("day");
+    expect(getLightingCondition(5.9)).toBe("twilight");
+    expect(getLightingCondition(-6)).toBe("twilight");
+    expect(getLightingCondition(-6.1)).toBe("night");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  combineVisibilityRanges,
+  estimateVisibilityRange,
+  haversineKm,
+  landmarkDistanceKm,
+} from "../visibility-range.js";
+import type { LandmarkTemplate } from "../types.js";
+
+describe("haversineKm", () => {
+  it("measures Salesforce Tower to the Golden Gate Bridge south tower", () => {
+    const km = haversineKm(
+      { latitude: 37.7897, longitude: -122.3972 },
+      { latitude: 37.8107, longitude: -122.4777 }
+    );
+    expect(km).toBeGreaterThan(7);
+    expect(km).toBeLessThan(7.5);
+  });
+});
+
+describe("landmarkDistanceKm", () => {
+  const landmark: LandmarkTemplate = {
+    name: "tower",
+    templatePath: "tower.png",
+    region: { x: 0, y: 0, width: 10, height: 10 },
+    threshold: 0.7,
+    coordinates: { latitude: 37.8107, longitude: -122.4777 },
+  };
+  const camera = { latitude: 37.7897, longitude: -122.3972 };
+
+  it("prefers an explicit distance", () => {
+    expect(landmarkDistanceKm({ ...landmark, distanceKm: 3 }, camera)).toBe(3);
+  });
+
+  it("computes the distance from coordinates", () => {
+    expect(landmarkDistanceKm(landmark, camera)).toBeCloseTo(7.4, 1);
+  });
+
+  it("is unknown without camera coordinates", () => {
+    expect(landmarkDistanceKm(landmark, undefined)).toBeUndefined();
+  });
+});
+
+describe("estimateVisibilityRange", () => {
+  it("brackets visibility between the farthest visible and next obscured landmark", () => {
+    const range = estimateVisibilityRange([
+      { visible: true, distanceKm: 4.7 },
+      { visible: false, distanceKm: 7.4 },
+      { visible: false, distanceKm: 10.2 },
+    ]);
+    expect(range).toEqual({ minKm: 4.7, maxKm: 7.4, minMiles: 2.9, maxMiles: 4.6 });
+  });
+
+  it("has no upper bound when every landmark is visible", () => {
+    const range = estimateVisibilityRange([
+      { visible: true, distanceKm: 4.7 },
+      { visible: true, distanceKm: 10.2 },
+    ]);
+    expect(range?.minKm).toBe(10.2);
+    expect(range?.maxKm).toBeNull();
+  });
+
+  it("is below the nearest landmark when nothing is visible", () => {
+    const range = estimateVisibilityRange([
+      { visible: false, distanceKm: 4.7 },
+      { visible: false, distanceKm: 10.2 },
+    ]);
+    expect(range).toMatchObject({ minKm: 0, maxKm: 4.7 });
+  });
+
+  it("ignores landmarks without a distance", () => {
+    expect(estimateVisibilityRange([{ visible: true }])).toBeUndefined();
+  });
+});
+
+describe("combineVisibilityRanges", () => {
+  it("keeps the largest proven distance and the tightest consistent bound", () => {
+    const range = combineVisibilityRanges([
+      { minKm: 2, maxKm: 5, minMiles: 1.2, maxMiles: 3.1 },
+      { minKm: 4, maxKm: 8, minMiles: 2.5, maxMiles: 5 },
+    ]);
+    expect(range).toMatchObject({ minKm: 4, maxKm: 5 });
+  });
+});
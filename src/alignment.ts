@@ -0,0 +1,134 @@
+import { compareImages, type GrayImage } from "./similarity.js";
+import type { DriftSearch, PixelOffset, SimilarityMetric } from "./types.js";
+
+// Percentiles used for contrast stretching, matching sharp's normalize()
+const LOWER_PERCENTILE = 0.01;
+const UPPER_PERCENTILE = 0.99;
+
+/**
+ * Copy a rectangle out of a grayscale image.
+ */
+export function cropGray(
+  image: GrayImage,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): GrayImage {
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const start = (top + y) * image.width + left;
+    data.set(image.data.subarray(start, start + width), y * width);
+  }
+  return { data, width, height };
+}
+
+/**
+ * Stretch intensities so the 1st–99th percentile covers the full 0–255
+ * range — the same normalization sharp applies, done in memory so it can
+ * run once per candidate position.
+ */
+export function stretchContrast(image: GrayImage): GrayImage {
+  const histogram = new Uint32Array(256);
+  for (const value of image.data) histogram[value]++;
+
+  const total = image.data.length;
+  let lower = 0;
+  let upper = 255;
+  let count = 0;
+  for (let v = 0; v < 256; v++) {
+    count += histogram[v];
+    if (count > total * LOWER_PERCENTILE) {
+      lower = v;
+      break;
+    }
+  }
+  count = 0;
+  for (let v = 255; v >= 0; v--) {
+    count += histogram[v];
+    if (count > total * (1 - UPPER_PERCENTILE)) {
+      upper = v;
+      break;
+    }
+  }
+  if (upper <= lower) return image;
+
+  const scale = 255 / (upper - lower);
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const stretched = (image.data[i] - lower) * scale;
+    data[i] = Math.min(255, Math.max(0, Math.round(stretched)));
+  }
+  return { data, width: image.width, height: image.height };
+}
+
+/**
+ * Slide the landmark region around its stored position and return the
+ * offset where the live crop best matches the template. Candidates are
+ * sampled every `step` pixels, then the best one is refined pixel by pixel.
+ * Positions that would fall outside the frame are skipped.
+ */
+export function findBestAlignment(
+  frame: GrayImage,
+  region: { x: number; y: number; width: number; height: number },
+  template: GrayImage,
+  metric: SimilarityMetric,
+  search: DriftSearch
+): { offset: PixelOffset; similarity: number; rawScore: number } {
+  const { radius } = search;
+  const step = Math.max(1, search.step ?? 2);
+  type Candidate = { offset: PixelOffset; similarity: number; rawScore: number };
+  const state: { best: Candidate | null } = { best: null };
+
+  const tryOffset = (dx: number, dy: number) => {
+    if (Math.abs(dx) > radius || Math.abs(dy) > radius) return;
+    const left = region.x + dx;
+    const top = region.y + dy;
+    if (
+      left < 0 ||
+      top < 0 ||
+      left + region.width > frame.width ||
+      top + region.height > frame.height
+    ) {
+      return;
+    }
+    const crop = stretchContrast(cropGray(frame, left, top, region.width, region.height));
+    const score = compareImages(metric, crop, template);
+    const distance = Math.abs(dx) + Math.abs(dy);
+    const { best } = state;
+    // Prefer the smaller shift when scores tie so a static camera reports 0,0
+    if (
+      !best ||
+      score.similarity > best.similarity ||
+      (score.similarity === best.similarity &&
+        distance < Math.abs(best.offset.x) + Math.abs(best.offset.y))
+    ) {
+      state.best = { offset: { x: dx, y: dy }, ...score };
+    }
+  };
+
+  for (let dy = -radius; dy <= radius; dy += step) {
+    for (let dx = -radius; dx <= radius; dx += step) {
+      tryOffset(dx, dy);
+    }
+  }
+  tryOffset(0, 0);
+
+  const coarse = state.best;
+  if (!coarse) {
+    throw new Error(
+      `Landmark region ${region.width}x${region.height} at ${region.x},${region.y} does not fit in ${frame.width}x${frame.height} frame`
+    );
+  }
+
+  if (step > 1) {
+    const { x, y } = coarse.offset;
+    for (let dy = y - step + 1; dy < y + step; dy++) {
+      for (let dx = x - step + 1; dx < x + step; dx++) {
+        tryOffset(dx, dy);
+      }
+    }
+  }
+
+  return state.best ?? coarse;
+}
@@ -0,0 +1,96 @@
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { findReplayFrames, replayFrames } from "./replay.js";
+import {
+  checkHistoryInterval,
+  DEFAULT_INTERVAL_MINUTES,
+  HISTORY_DIR,
+  loadHistory,
+  updateHistoricalRange,
+  writeHistoricalReadings,
+  writeLocalHistory,
+} from "./history.js";
+import { ARCHIVE_DIR } from "./frame-archive.js";
+import { saveClimatology, tallyClimatology } from "./climatology.js";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const USAGE = `Usage: npm run backfill -- --from <YYYY-MM-DD> --to <YYYY-MM-DD> [--frames <dir>] [--location <name> ...] [--interval <minutes>] [--dry-run]
+
+Replays stored frames through the detector with the current location
+configs and rewrites the api/history files for those days. The frames
+directory (default: archive/) holds one directory per location, with
+frames named by UTC capture time:
+
+  <frames>/salesforce-north/2026-06-21T200000Z.jpg
+  <frames>/salesforce-north/2026-06-21T200000Z/frame.jpg   (npm run check -- --archive)
+
+--interval sets the minutes per history reading (default 60); it must
+divide the hour. --dry-run prints the replayed readings without writing
+history.`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      frames: { type: "string", default: ARCHIVE_DIR },
+      location: { type: "string", multiple: true },
+      interval: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.from || !values.to || !DATE.test(values.from) || !DATE.test(values.to)) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const intervalMinutes = checkHistoryInterval(
+    values.interval ? Number(values.interval) : DEFAULT_INTERVAL_MINUTES
+  );
+  const framesDir = path.resolve(values.frames);
+  const frames = await findReplayFrames(framesDir, {
+    from: values.from,
+    to: values.to,
+    locations: values.location,
+  });
+  console.log(
+    `Replaying ${frames.length} frame(s) from ${path.relative(process.cwd(), framesDir) || "."} ` +
+      `(${values.from} to ${values.to})...`
+  );
+  if (frames.length === 0) return;
+
+  const readings = await replayFrames(frames, (frame, result) => {
+    const outcome =
+      result.status === "ok"
+        ? `${result.fogLevel} (${result.landmarksVisible}/${result.totalLandmarks} landmarks visible)`
+        : `${result.status} (${result.statusReason})`;
+    console.log(`  ${frame.timestamp} ${frame.location}: ${outcome}`);
+  }, intervalMinutes);
+
+  if (values["dry-run"]) {
+    console.log(`\nDry run: ${readings.length} reading(s) not written`);
+    return;
+  }
+
+  const dates = await writeHistoricalReadings(HISTORY_DIR, readings, intervalMinutes);
+  for (const dateString of dates) {
+    console.log(`  Wrote api/history/${dateString}`);
+  }
+  for (const dateString of await writeLocalHistory(HISTORY_DIR, readings)) {
+    console.log(`  Wrote api/history/local/${dateString}`);
+  }
+  await updateHistoricalRange(HISTORY_DIR);
+  await saveClimatology(tallyClimatology(await loadHistory(HISTORY_DIR, { hourly: true })));
+  console.log(`  Wrote api/climatology`);
+  console.log(
+    `\n✓ Backfilled ${readings.length} reading(s) at ${intervalMinutes}-minute intervals ` +
+      `across ${dates.length} day(s)`
+  );
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
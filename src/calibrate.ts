@@ -0,0 +1,82 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  calibrateLocation,
+  writeThresholds,
+  type ConfusionMatrix,
+} from "./calibration.js";
+import type { LocationConfig } from "./types.js";
+
+const LOCATIONS_DIR = path.resolve(import.meta.dirname, "..", "data", "locations");
+
+const USAGE = `Usage: npm run calibrate -- --location <name> --dir <snapshot dir> [--write]
+
+The snapshot directory needs a labels.json listing each image and the
+landmarks in it labeled "clear" or "foggy":
+
+  [
+    {
+      "file": "2026-06-01T1600.png",
+      "lighting": "day",
+      "landmarks": { "gg-bridge-south-tower": "clear", "marin-headlands": "foggy" }
+    }
+  ]
+
+--write saves the recommended thresholds to data/locations/<name>.json.`;
+
+function formatMatrix(matrix: ConfusionMatrix): string {
+  const cell = (n: number) => String(n).padStart(9);
+  return [
+    `                   visible  obscured`,
+    `    labeled clear${cell(matrix.truePositive)} ${cell(matrix.falseNegative)}`,
+    `    labeled foggy${cell(matrix.falsePositive)} ${cell(matrix.trueNegative)}`,
+  ].join("\n");
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      location: { type: "string" },
+      dir: { type: "string" },
+      write: { type: "boolean", default: false },
+    },
+  });
+
+  if (!values.location || !values.dir) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const config: LocationConfig = JSON.parse(
+    await fs.readFile(path.join(LOCATIONS_DIR, `${values.location}.json`), "utf-8")
+  );
+
+  console.log(`Calibrating ${config.location} from ${values.dir}...\n`);
+  const recommendations = await calibrateLocation(config, path.resolve(values.dir));
+
+  for (const rec of recommendations) {
+    console.log(`${rec.landmark} (${rec.lighting}, ${rec.samples} snapshots)`);
+    console.log(
+      `  current:     ${rec.currentThreshold} → accuracy ${percent(rec.currentAccuracy)}`
+    );
+    console.log(formatMatrix(rec.currentMatrix));
+    console.log(`  recommended: ${rec.threshold} → accuracy ${percent(rec.accuracy)}`);
+    console.log(formatMatrix(rec.matrix));
+    console.log();
+  }
+
+  if (values.write) {
+    await writeThresholds(config.location, recommendations);
+    console.log(`✓ Wrote thresholds to data/locations/${config.location}.json`);
+  } else {
+    console.log("Run again with --write to save these thresholds.");
+  }
+}
+
+main().catch((error) => {
+  console.error("Calibration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,200 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { checkLandmarkVisibility } from "./fog-detector.js";
+import type {
+  LandmarkTemplate,
+  LightingCondition,
+  LocationConfig,
+} from "./types.js";
+
+const DATA_DIR = path.resolve(import.meta.dirname, "..", "data", "locations");
+
+export type SnapshotLabel = "clear" | "foggy";
+
+// One entry of <snapshot dir>/labels.json
+export interface LabeledSnapshot {
+  file: string; // Image file, relative to the snapshot directory
+  lighting?: LightingCondition; // Template lighting to calibrate (default "day")
+  landmarks: Record<string, SnapshotLabel>; // Landmarks not listed are skipped
+}
+
+export interface LabeledScore {
+  similarity: number;
+  label: SnapshotLabel;
+}
+
+// "Positive" means the landmark is visible (labeled clear)
+export interface ConfusionMatrix {
+  truePositive: number; // Labeled clear, predicted visible
+  falseNegative: number; // Labeled clear, predicted obscured
+  falsePositive: number; // Labeled foggy, predicted visible
+  trueNegative: number; // Labeled foggy, predicted obscured
+}
+
+export interface ThresholdRecommendation {
+  landmark: string;
+  lighting: LightingCondition;
+  samples: number;
+  currentThreshold: number;
+  currentAccuracy: number;
+  currentMatrix: ConfusionMatrix;
+  threshold: number;
+  accuracy: number;
+  matrix: ConfusionMatrix;
+}
+
+/**
+ * Tally predictions at a threshold against the labels. A landmark is
+ * predicted visible when its similarity reaches the threshold, the same
+ * rule checkLandmarkVisibility applies.
+ */
+export function confusionMatrix(
+  scores: LabeledScore[],
+  threshold: number
+): ConfusionMatrix {
+  const matrix = { truePositive: 0, falseNegative: 0, falsePositive: 0, trueNegative: 0 };
+  for (const { similarity, label } of scores) {
+    const visible = similarity >= threshold;
+    if (label === "clear") {
+      if (visible) matrix.truePositive++;
+      else matrix.falseNegative++;
+    } else if (visible) {
+      matrix.falsePositive++;
+    } else {
+      matrix.trueNegative++;
+    }
+  }
+  return matrix;
+}
+
+export function accuracy(matrix: ConfusionMatrix): number {
+  const total =
+    matrix.truePositive + matrix.falseNegative + matrix.falsePositive + matrix.trueNegative;
+  return total === 0 ? 0 : (matrix.truePositive + matrix.trueNegative) / total;
+}
+
+/**
+ * Find the threshold that classifies the most labeled scores correctly.
+ * Candidates sit midway between neighbouring scores; among equally
+ * accurate ones the threshold farthest from any sample wins, so it isn't
+ * balanced on the edge of a single snapshot.
+ */
+export function findBestThreshold(
+  scores: LabeledScore[]
+): { threshold: number; accuracy: number; matrix: ConfusionMatrix } {
+  if (scores.length === 0) throw new Error("No labeled scores to calibrate");
+
+  const values = [...new Set(scores.map((s) => s.similarity))].sort((a, b) => a - b);
+  const candidates = [values[0], Math.min(1, values[values.length - 1] + 0.01)];
+  for (let i = 1; i < values.length; i++) {
+    candidates.push((values[i - 1] + values[i]) / 2);
+  }
+
+  let best = { threshold: candidates[0], accuracy: -1, margin: -1 };
+  for (const raw of candidates) {
+    const threshold = Math.round(raw * 1000) / 1000;
+    const acc = accuracy(confusionMatrix(scores, threshold));
+    const margin = Math.min(...values.map((v) => Math.abs(v - threshold)));
+    if (acc > best.accuracy || (acc === best.accuracy && margin > best.margin)) {
+      best = { threshold, accuracy: acc, margin };
+    }
+  }
+
+  return {
+    threshold: best.threshold,
+    accuracy: best.accuracy,
+    matrix: confusionMatrix(scores, best.threshold),
+  };
+}
+
+/**
+ * Read <snapshotDir>/labels.json, score every labeled landmark with
+ * checkLandmarkVisibility and recommend a threshold per landmark and
+ * template lighting.
+ */
+export async function calibrateLocation(
+  config: LocationConfig,
+  snapshotDir: string
+): Promise<ThresholdRecommendation[]> {
+  const labels: LabeledSnapshot[] = JSON.parse(
+    await fs.readFile(path.join(snapshotDir, "labels.json"), "utf-8")
+  );
+
+  const groups = new Map<
+    string,
+    { landmark: LandmarkTemplate; lighting: LightingCondition; threshold: number; scores: LabeledScore[] }
+  >();
+
+  for (const snapshot of labels) {
+    const buffer = await fs.readFile(path.join(snapshotDir, snapshot.file));
+    for (const [name, label] of Object.entries(snapshot.landmarks)) {
+      const landmark = config.landmarks.find((l) => l.name === name);
+      if (!landmark) {
+        throw new Error(`${snapshot.file}: unknown landmark "${name}" for ${config.location}`);
+      }
+      const result = await checkLandmarkVisibility(
+        buffer,
+        landmark,
+        snapshot.lighting ?? "day",
+        config.driftSearch
+      );
+      const key = `${name}/${result.lighting}`;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          landmark,
+          lighting: result.lighting,
+          threshold: currentThreshold(landmark, result.lighting),
+          scores: [],
+        });
+      }
+      groups.get(key)!.scores.push({ similarity: result.similarity, label });
+    }
+  }
+
+  return [...groups.values()].map(({ landmark, lighting, threshold, scores }) => {
+    const currentMatrix = confusionMatrix(scores, threshold);
+    return {
+      landmark: landmark.name,
+      lighting,
+      samples: scores.length,
+      currentThreshold: threshold,
+      currentAccuracy: accuracy(currentMatrix),
+      currentMatrix,
+      ...findBestThreshold(scores),
+    };
+  });
+}
+
+/**
+ * Write recommended thresholds back into data/locations/<location>.json.
+ * Day recommendations update the landmark's threshold; other lighting
+ * conditions update the matching entry in its templates list.
+ */
+export async function writeThresholds(
+  location: string,
+  recommendations: ThresholdRecommendation[]
+): Promise<void> {
+  const configPath = path.join(DATA_DIR, `${location}.json`);
+  const config: LocationConfig = JSON.parse(await fs.readFile(configPath, "utf-8"));
+
+  for (const rec of recommendations) {
+    const landmark = config.landmarks.find((l) => l.name === rec.landmark);
+    if (!landmark) continue;
+    const template = landmark.templates?.find((t) => t.lighting === rec.lighting);
+    if (template) {
+      template.threshold = rec.threshold;
+    } else {
+      landmark.threshold = rec.threshold;
+    }
+  }
+
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2) + "\n");
+}
+
+function currentThreshold(
+  landmark: LandmarkTemplate,
+  lighting: LightingCondition
+): number {
+  const template = landmark.templates?.find((t) => t.lighting === lighting);
+  return template?.threshold ?? landmark.threshold;
+}
@@ -0,0 +1,96 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { CameraHealth, CameraInfo, VisibilityResult } from "./types.js";
+
+export const CAMERAS_API_DIR = path.resolve(import.meta.dirname, "..", "api", "cameras");
+
+/**
+ * Fold one run's readings into each camera's health record. A camera is up
+ * when any location using it got a usable frame ("indeterminate" night
+ * readings count; only "error" readings are failures). Catalog cameras no
+ * location uses are listed as unconfigured, and cameras not checked this
+ * run keep their previous record, so its lastChecked shows how old it is.
+ */
+export function updateCameraHealth(
+  previous: CameraHealth[],
+  results: VisibilityResult[],
+  catalog: CameraInfo[]
+): CameraHealth[] {
+  const previousById = new Map(previous.map((h) => [h.camera, h]));
+  const byCamera = new Map<string, VisibilityResult[]>();
+  for (const result of results) {
+    const id = result.camera ?? result.location;
+    byCamera.set(id, [...(byCamera.get(id) ?? []), result]);
+  }
+
+  const health = new Map<string, CameraHealth>();
+  for (const [id, group] of byCamera) {
+    const before = previousById.get(id);
+    const lastChecked = group.map((r) => r.timestamp).sort().at(-1) as string;
+    const up = group.some((r) => r.status !== "error");
+    const failure = group.filter((r) => r.status === "error").at(-1);
+    const info = catalog.find((c) => c.id === id);
+    const lastError =
+      !up && failure
+        ? {
+            errorClass: failure.errorClass ?? "Error",
+            message: failure.statusReason ?? "Unknown error",
+            timestamp: failure.timestamp,
+          }
+        : before?.lastError;
+
+    health.set(id, {
+      camera: id,
+      ...(info && { name: info.name }),
+      status: up ? "up" : "down",
+      locations: group.map((r) => r.location).sort(),
+      lastChecked,
+      lastSuccess: up ? lastChecked : (before?.lastSuccess ?? null),
+      failureStreak: up ? 0 : (before?.failureStreak ?? 0) + 1,
+      ...(lastError && { lastError }),
+    });
+  }
+
+  const unconfigured = (camera: CameraInfo): CameraHealth => ({
+    camera: camera.id,
+    name: camera.name,
+    status: "unconfigured",
+    locations: [],
+    lastChecked: null,
+    lastSuccess: null,
+    failureStreak: 0,
+  });
+
+  // Catalog order first, then cameras outside the catalog by ID
+  const catalogIds = new Set(catalog.map((c) => c.id));
+  const others = [...new Set([...health.keys(), ...previousById.keys()])]
+    .filter((id) => !catalogIds.has(id))
+    .sort();
+  return [
+    ...catalog.map((c) => health.get(c.id) ?? previousById.get(c.id) ?? unconfigured(c)),
+    ...others.map((id) => (health.get(id) ?? previousById.get(id))!),
+  ];
+}
+
+/**
+ * Load the previous run's records from api/cameras/index.
+ */
+export async function loadCameraHealth(dir: string): Promise<CameraHealth[]> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, "index"), "utf-8"));
+  } catch {
+    // No previous run yet
+    return [];
+  }
+}
+
+/**
+ * Write api/cameras/<id> for each camera and the api/cameras/index collection.
+ */
+export async function writeCameraHealth(dir: string, health: CameraHealth[]): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  for (const camera of health) {
+    await fs.writeFile(path.join(dir, camera.camera), JSON.stringify(camera, null, 2) + "\n");
+  }
+  await fs.writeFile(path.join(dir, "index"), JSON.stringify(health, null, 2) + "\n");
+}
@@ -0,0 +1,67 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { cameraCoverage, loadCameraCatalog } from "./cameras.js";
+import type { LocationConfig } from "./types.js";
+
+const LOCATIONS_DIR = path.resolve(import.meta.dirname, "..", "data", "locations");
+
+/**
+ * List catalog cameras by whether a location config uses them, so new
+ * cameras in data/cameras.json don't go unmonitored.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: "string", default: LOCATIONS_DIR },
+    },
+  });
+
+  const dir = path.resolve(values.dir);
+  const files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json"));
+  const configs: LocationConfig[] = [];
+  for (const file of files) {
+    try {
+      configs.push(JSON.parse(await fs.readFile(path.join(dir, file), "utf-8")));
+    } catch {
+      console.warn(`Skipping ${file}: not valid JSON (see npm run validate)`);
+    }
+  }
+
+  const coverage = cameraCoverage(await loadCameraCatalog(), configs);
+  const configured = coverage.filter((c) => c.locations.length > 0);
+  const unconfigured = coverage.filter((c) => c.locations.length === 0);
+
+  console.log(`Configured (${configured.length}/${coverage.length}):`);
+  for (const { camera, locations } of configured) {
+    console.log(`  ${camera.id.padEnd(24)} → ${locations.join(", ")}`);
+  }
+
+  console.log(`\nNot configured (${unconfigured.length}):`);
+  for (const { camera } of unconfigured) {
+    console.log(
+      `  ${camera.id.padEnd(24)} ${camera.name} — faces ${camera.direction}, ` +
+        `${camera.resolution}; sees ${camera.landmarks_visible.join(", ")}`
+    );
+  }
+  if (unconfigured.length > 0) {
+    console.log(`\nSet one up with: npm run setup -- --camera <id> --region <region> --landmark ...`);
+  }
+
+  // Configs still carrying a catalog camera's URL should name it instead
+  for (const config of configs) {
+    if (config.camera || !config.source) continue;
+    const match = coverage.find(({ camera }) => camera.source.url === config.source!.url);
+    if (match) {
+      console.log(
+        `\n${config.location} copies ${match.camera.id}'s URL; ` +
+          `replace its source with "camera": "${match.camera.id}"`
+      );
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error("Camera report failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { CameraInfo, LocationConfig, WebcamSource } from "./types.js";
+
+const CAMERAS_PATH = path.resolve(
+  import.meta.dirname,
+  "..",
+  "data",
+  "cameras.json"
+);
+
+/**
+ * Load the camera catalog from data/cameras.json.
+ */
+export async function loadCameraCatalog(): Promise<CameraInfo[]> {
+  const data = await fs.readFile(CAMERAS_PATH, "utf-8");
+  return (JSON.parse(data) as { cameras: CameraInfo[] }).cameras;
+}
+
+/**
+ * Find a catalog entry by its ID (e.g. "salesforce-north").
+ */
+export async function findCameraById(
+  id: string
+): Promise<CameraInfo | undefined> {
+  const cameras = await loadCameraCatalog();
+  return cameras.find((camera) => camera.id === id);
+}
+
+/**
+ * Find the catalog entry that streams from the same URL as a source.
+ */
+export async function findCameraBySource(
+  source: WebcamSource
+): Promise<CameraInfo | undefined> {
+  const cameras = await loadCameraCatalog();
+  return cameras.find((camera) => camera.source.url === source.url);
+}
+
+/**
+ * Where a location's frames come from. A config names its catalog camera
+ * by ID; configs for cameras outside the catalog give a source directly,
+ * which is still matched against the catalog by URL.
+ */
+export async function resolveLocationCamera(
+  config: Pick<LocationConfig, "location" | "camera" | "source">
+): Promise<{ source: WebcamSource; camera?: CameraInfo }> {
+  if (config.camera) {
+    const camera = await findCameraById(config.camera);
+    if (!camera) {
+      throw new Error(`Camera "${config.camera}" is not in data/cameras.json`);
+    }
+    return { source: camera.source, camera };
+  }
+  if (config.source) {
+    return { source: config.source, camera: await findCameraBySource(config.source) };
+  }
+  throw new Error(`Location "${config.location}" has neither a camera nor a source`);
+}
+
+/**
+ * Pair each catalog camera with the locations that use it, by ID or by a
+ * matching source URL. Cameras with no locations haven't been set up yet.
+ */
+export function cameraCoverage(
+  cameras: CameraInfo[],
+  configs: Pick<LocationConfig, "location" | "camera" | "source">[]
+): { camera: CameraInfo; locations: string[] }[] {
+  return cameras.map((camera) => ({
+    camera,
+    locations: configs
+      .filter((c) => c.camera === camera.id || (!c.camera && c.source?.url === camera.source.url))
+      .map((c) => c.location)
+      .sort(),
+  }));
+}
+
+/**
+ * Parse a catalog resolution like "1280x720". Approximate resolutions
+ * ("~1200x900") can't be checked against and return null.
+ */
+export function parseResolution(
+  resolution: string
+): { width: number; height: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(resolution);
+  if (!match) return null;
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
@@ -1,11 +1,40 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { analyzeFogLevel } from "./fog-detector.js";
-import type {
-  VisibilityResult,
-  HistoricalData,
-  HistoricalReading,
-} from "./types.js";
+import { parseArgs } from "node:util";
+import { analyzeFogLevel, failedReading } from "./fog-detector.js";
+import { aggregateRegions, markStaleRegions, STALE_AFTER_MS } from "./regions.js";
+import { predictClearing } from "./prediction.js";
+import {
+  checkHistoryInterval,
+  DEFAULT_INTERVAL_MINUTES,
+  HISTORY_DIR,
+  loadHistory,
+  pacificDate,
+  readLocalHistory,
+  toHistoricalReading,
+  updateHistoricalRange,
+  writeHistoricalReadings,
+  writeLocalHistory,
+} from "./history.js";
+import { writeCurrentStatus } from "./current-status.js";
+import { parseCount } from "./cli-args.js";
+import { refreshClimatology, saveClimatology } from "./climatology.js";
+import { ARCHIVE_DIR } from "./frame-archive.js";
+import { DEBUG_DIR } from "./debug-image.js";
+import {
+  formatConfigIssues,
+  loadLocationConfig,
+  validateLocationFiles,
+} from "./config-validation.js";
+import {
+  CAMERAS_API_DIR,
+  loadCameraHealth,
+  updateCameraHealth,
+  writeCameraHealth,
+} from "./camera-health.js";
+import { loadCameraCatalog, resolveLocationCamera } from "./cameras.js";
+import type { FetchOptions } from "./image-fetcher.js";
+import type { RegionStatus, VisibilityResult } from "./types.js";
 
 const LOCATIONS_DIR = path.resolve(
   import.meta.dirname,
@@ -14,150 +43,204 @@ const LOCATIONS_DIR = path.resolve(
   "locations"
 );
 const API_DIR = path.resolve(import.meta.dirname, "..", "api");
-const HISTORY_DIR = path.join(API_DIR, "history");
-
-interface RegionStatus {
-  region: string;
-  fogLevel: string;
-  visibilityScore: number;
-  timestamp: string;
-  landmarks: {
-    name: string;
-    visible: boolean;
-    similarity: number;
-  }[];
+const FRAME_STATE_PATH = path.resolve(
+  import.meta.dirname,
+  "..",
+  "data",
+  "state",
+  "frames.json"
+);
+
+// Fingerprint of the last frame seen at each location
+type FrameState = Record<string, { hash: string; timestamp: string }>;
+
+/**
+ * Load the last frame fingerprints, used to detect frozen streams.
+ */
+async function loadFrameState(): Promise<FrameState> {
+  try {
+    return JSON.parse(await fs.readFile(FRAME_STATE_PATH, "utf-8"));
+  } catch (error) {
+    // No previous run yet
+    return {};
+  }
 }
 
 /**
- * Update historical data with new reading, maintaining daily files and a 2-year rolling window.
+ * Record this run's frame fingerprints for the next run to compare against.
  */
-async function updateHistoricalData(
+async function saveFrameState(
+  previous: FrameState,
   results: VisibilityResult[]
 ): Promise<void> {
-  // Create history directory
-  await fs.mkdir(HISTORY_DIR, { recursive: true });
-
-  // Create new reading from current results
-  const timestamp = results[0]?.timestamp || new Date().toISOString();
-  const readingDate = new Date(timestamp);
-  const dateString = readingDate.toISOString().split("T")[0]; // YYYY-MM-DD
-
-  const newReading: HistoricalReading = {
-    timestamp,
-    regions: {},
-  };
-
+  const state: FrameState = { ...previous };
   for (const result of results) {
-    newReading.regions[result.region] = {
-      fogLevel: result.fogLevel,
-      visibilityScore: result.visibilityScore,
-      landmarksVisible: result.landmarksVisible,
-      totalLandmarks: result.totalLandmarks,
+    if (!result.frameQuality) continue;
+    state[result.location] = {
+      hash: result.frameQuality.hash,
+      timestamp: result.timestamp,
     };
   }
-
-  // Read existing daily file or create 24-hour array
-  const dailyFile = path.join(HISTORY_DIR, dateString);
-  let dailyData: HistoricalData = { hours: Array(24).fill(null) };
-  try {
-    const existing = await fs.readFile(dailyFile, "utf-8");
-    dailyData = JSON.parse(existing);
-  } catch (error) {
-    // File doesn't exist yet, start fresh with 24-item array
-  }
-
-  // Insert reading at the correct hour index (0-23)
-  const hour = readingDate.getUTCHours();
-  dailyData.hours[hour] = newReading;
-
-  // Write updated daily file
-  await fs.writeFile(
-    dailyFile,
-    JSON.stringify(dailyData, null, 2) + "\n"
-  );
-  console.log(`  Wrote api/history/${dateString}`);
-
-  // Update historical range metadata
-  await updateHistoricalRange();
+  await fs.mkdir(path.dirname(FRAME_STATE_PATH), { recursive: true });
+  await fs.writeFile(FRAME_STATE_PATH, JSON.stringify(state, null, 2) + "\n");
 }
 
 /**
- * Update the historical range metadata showing available data.
+ * Load the regions published by the previous run, so regions that get no
+ * reading this run stay listed (as stale).
  */
-async function updateHistoricalRange(): Promise<void> {
+async function loadPublishedRegions(regionsDir: string): Promise<RegionStatus[]> {
   try {
-    const files = await fs.readdir(HISTORY_DIR);
-    const dateFiles = files
-      .filter((f) => /^\d{4}-\d{2}-\d{2}$/.test(f))
-      .sort();
-
-    if (dateFiles.length === 0) {
-      console.log("  No historical data files found");
-      return;
-    }
-
-    const startDate = dateFiles[0];
-    const endDate = dateFiles[dateFiles.length - 1];
-    const totalDays = dateFiles.length;
-
-    const rangeData = {
-      startDate,
-      endDate,
-      totalDays,
-      lastUpdated: new Date().toISOString(),
-    };
-
-    await fs.writeFile(
-      path.join(HISTORY_DIR, "index"),
-      JSON.stringify(rangeData, null, 2) + "\n"
+    const regions: RegionStatus[] = JSON.parse(
+      await fs.readFile(path.join(regionsDir, "index"), "utf-8")
     );
-    console.log(`  Wrote api/history (${startDate} to ${endDate})`);
+    // Entries from before regions listed their cameras aren't worth carrying over
+    return regions.filter((r) => Array.isArray(r.locations));
   } catch (error) {
-    console.error("  Failed to update historical range:", error);
+    // No previous run yet
+    return [];
   }
 }
 
+/**
+ * An "error" reading for a location whose check threw rather than
+ * returning a reading of its own.
+ */
+async function crashedReading(locationName: string, error: Error): Promise<VisibilityResult> {
+  const config = await loadLocationConfig(path.join(LOCATIONS_DIR, `${locationName}.json`));
+  const { camera } = await resolveLocationCamera(config).catch(() => ({ camera: undefined }));
+  return failedReading(
+    config,
+    camera,
+    new Date(),
+    `Check failed: ${error.message}`,
+    error.name || "Error"
+  );
+}
+
 /**
  * Main entry point: check fog conditions at all configured locations
  * and write results to region-based API endpoints.
  */
 async function main(): Promise<void> {
-  // Find all configured locations
-  const files = await fs.readdir(LOCATIONS_DIR);
-  const locationFiles = files.filter(
-    (f) => f.endsWith(".json") && f !== ".gitkeep"
+  const { values } = parseArgs({
+    options: {
+      archive: { type: "boolean", default: false },
+      "archive-dir": { type: "string", default: ARCHIVE_DIR },
+      debug: { type: "boolean", default: false },
+      "debug-dir": { type: "string", default: DEBUG_DIR },
+      timeout: { type: "string" }, // Seconds per fetch attempt
+      retries: { type: "string" },
+      "stale-after": { type: "string" }, // Minutes before a region's reading is stale
+      interval: { type: "string" }, // Minutes per history slot; match the schedule
+    },
+  });
+  const archiveDir = values.archive ? path.resolve(values["archive-dir"]) : undefined;
+  const debugDir = values.debug ? path.resolve(values["debug-dir"]) : undefined;
+  const fetchOptions: FetchOptions = {
+    ...(values.timeout !== undefined && { timeoutMs: parseCount("timeout", values.timeout) * 1000 }),
+    ...(values.retries !== undefined && {
+      retries: parseCount("retries", values.retries, { integer: true, allowZero: true }),
+    }),
+  };
+  const staleAfterMs =
+    values["stale-after"] !== undefined
+      ? parseCount("stale-after", values["stale-after"]) * 60 * 1000
+      : STALE_AFTER_MS;
+  const intervalMinutes = checkHistoryInterval(
+    values.interval ? Number(values.interval) : DEFAULT_INTERVAL_MINUTES
   );
 
-  if (locationFiles.length === 0) {
+  // Find all configured locations, and drop invalid ones before fetching anything
+  const reports = await validateLocationFiles(LOCATIONS_DIR);
+
+  if (reports.length === 0) {
     console.log("No locations configured yet.");
     console.log("Run the setup script first to configure webcam locations.");
     return;
   }
 
+  for (const report of reports.filter((r) => r.issues.length > 0)) {
+    console.error(`  Skipping ${formatConfigIssues(report.file, report.issues)}`);
+  }
+  const locationFiles = reports
+    .filter((r) => r.issues.length === 0)
+    .map((r) => `${r.location}.json`);
+  if (locationFiles.length === 0) {
+    throw new Error("No valid location configs; run `npm run validate` for details");
+  }
+
   console.log(
     `Checking fog at ${locationFiles.length} location(s)...`
   );
 
   const results: VisibilityResult[] = [];
+  const frameState = await loadFrameState();
 
   for (const file of locationFiles) {
     const locationName = path.basename(file, ".json");
     try {
       console.log(`  Checking ${locationName}...`);
-      const result = await analyzeFogLevel(locationName);
+      const result = await analyzeFogLevel(locationName, {
+        previousFrameHash: frameState[locationName]?.hash,
+        archiveDir,
+        debugDir,
+        fetchOptions,
+      });
       results.push(result);
-      console.log(
-        `  ${locationName}: ${result.fogLevel} (${result.landmarksVisible}/${result.totalLandmarks} landmarks visible)`
-      );
+      if (result.status === "ok") {
+        const range = result.visibilityRange;
+        console.log(
+          `  ${locationName}: ${result.fogLevel} (${result.landmarksVisible}/${result.totalLandmarks} landmarks visible)` +
+            (range ? `, visibility ${range.minKm}-${range.maxKm ?? "∞"} km` : "")
+        );
+        const offset = result.cameraOffset;
+        if (offset && (offset.x !== 0 || offset.y !== 0)) {
+          console.log(`  ${locationName}: camera drifted ${offset.x},${offset.y} px`);
+        }
+      } else {
+        console.log(`  ${locationName}: ${result.status} (${result.statusReason})`);
+      }
     } catch (error) {
+      // Still report the location, so its region and camera health record the failure
       console.error(`  Failed to check ${locationName}:`, error);
+      results.push(await crashedReading(locationName, error as Error));
     }
   }
 
-  // Group results by region
-  const regionMap = new Map<string, VisibilityResult>();
-  for (const result of results) {
-    regionMap.set(result.region, result);
+  await saveFrameState(frameState, results);
+
+  // Track each camera's outages across runs
+  const cameraHealth = updateCameraHealth(
+    await loadCameraHealth(CAMERAS_API_DIR),
+    results,
+    await loadCameraCatalog()
+  );
+  await writeCameraHealth(CAMERAS_API_DIR, cameraHealth);
+  const down = cameraHealth.filter((c) => c.status === "down");
+  console.log(
+    `  Wrote api/cameras/index (${cameraHealth.length} camera(s), ${down.length} down)`
+  );
+  for (const camera of down) {
+    console.log(
+      `  ${camera.camera}: down for ${camera.failureStreak} run(s), last error ${camera.lastError?.errorClass}`
+    );
+  }
+
+  // Combine each region's cameras into one reading
+  const regions = aggregateRegions(results);
+
+  // Estimate when foggy regions will clear from past burn-off. Hourly
+  // readings keep sample counts comparable however often history is kept.
+  const history = await loadHistory(HISTORY_DIR, { hourly: true });
+  for (const regionStatus of regions) {
+    const prediction = predictClearing(regionStatus, history);
+    if (prediction) {
+      regionStatus.prediction = prediction;
+      console.log(
+        `  ${regionStatus.region}: ${prediction.message} (${prediction.confidence}% confidence, ${prediction.basedOnSamples} samples)`
+      );
+    }
   }
 
   // Create API directory
@@ -167,40 +250,54 @@ async function main(): Promise<void> {
   const regionsDir = path.join(API_DIR, "regions");
   await fs.mkdir(regionsDir, { recursive: true });
 
-  // Write individual region endpoints
-  for (const [region, result] of regionMap.entries()) {
-    const regionStatus: RegionStatus = {
-      region,
-      fogLevel: result.fogLevel,
-      visibilityScore: result.visibilityScore,
-      timestamp: result.timestamp,
-      landmarks: result.landmarkDetails,
-    };
+  const published = markStaleRegions(
+    regions,
+    await loadPublishedRegions(regionsDir),
+    new Date(),
+    staleAfterMs
+  );
 
+  // Write individual region endpoints
+  for (const regionStatus of published) {
     await fs.writeFile(
-      path.join(regionsDir, region),
+      path.join(regionsDir, regionStatus.region),
       JSON.stringify(regionStatus, null, 2) + "\n"
     );
-    console.log(`  Wrote api/regions/${region}`);
+    console.log(
+      `  Wrote api/regions/${regionStatus.region} (${regionStatus.locations.length} location(s)` +
+        (regionStatus.stale ? ", stale)" : ")")
+    );
   }
 
   // Write collection endpoint - all regions
-  const allRegions = Array.from(regionMap.values()).map((result) => ({
-    region: result.region,
-    fogLevel: result.fogLevel,
-    visibilityScore: result.visibilityScore,
-    timestamp: result.timestamp,
-    landmarks: result.landmarkDetails,
-  }));
-
   await fs.writeFile(
     path.join(regionsDir, "index"),
-    JSON.stringify(allRegions, null, 2) + "\n"
+    JSON.stringify(published, null, 2) + "\n"
   );
   console.log(`  Wrote api/regions/index (collection)`);
 
-  // Update historical data
-  await updateHistoricalData(results);
+  // Write the per-location summary the site reads
+  await writeCurrentStatus(API_DIR, results, regions);
+  console.log(`  Wrote api/current.json (${results.length} location(s))`);
+
+  // Update historical data, kept in daily files for a 2-year rolling window
+  const reading = toHistoricalReading(regions);
+  // The Pacific day this reading lands in, as climatology last counted it
+  const localDate = pacificDate(reading.timestamp);
+  const localBefore = await readLocalHistory(HISTORY_DIR, localDate);
+  for (const dateString of await writeHistoricalReadings(HISTORY_DIR, [reading], intervalMinutes)) {
+    console.log(`  Wrote api/history/${dateString}`);
+  }
+  for (const dateString of await writeLocalHistory(HISTORY_DIR, [reading])) {
+    console.log(`  Wrote api/history/local/${dateString}`);
+  }
+  await updateHistoricalRange(HISTORY_DIR);
+
+  // Fog frequency by month and hour, updated for the day just written
+  const climatology = await saveClimatology(
+    await refreshClimatology(HISTORY_DIR, localDate, localBefore)
+  );
+  console.log(`  Wrote api/climatology (${climatology.length} region(s))`);
 
   console.log(`\nAPI endpoints updated successfully`);
 }
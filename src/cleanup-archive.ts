@@ -0,0 +1,54 @@
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { ARCHIVE_DIR, pruneArchive } from "./frame-archive.js";
+import { parseCount } from "./cli-args.js";
+
+const DEFAULT_MAX_AGE_DAYS = 30;
+const USAGE = "Usage: npm run cleanup-archive -- [--dir <archive>] [--days <n>] [--max-runs <n>]";
+
+/**
+ * Prune the frame archive written by `npm run check -- --archive`. Raw
+ * frames are far larger than history, so they get their own, much shorter
+ * retention: 30 days by default, optionally capped per location too.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: "string", default: ARCHIVE_DIR },
+      days: { type: "string", default: String(DEFAULT_MAX_AGE_DAYS) },
+      "max-runs": { type: "string" },
+    },
+  });
+  const archiveDir = path.resolve(values.dir);
+  // A bad value here would delete the whole archive, so refuse it outright
+  let maxAgeDays: number;
+  let maxRunsPerLocation: number | undefined;
+  try {
+    maxAgeDays = parseCount("days", values.days);
+    maxRunsPerLocation =
+      values["max-runs"] === undefined
+        ? undefined
+        : parseCount("max-runs", values["max-runs"], { integer: true });
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  console.log("Starting archive cleanup...");
+  console.log(
+    `  Keeping ${maxAgeDays} day(s)` +
+      (maxRunsPerLocation !== undefined ? `, at most ${maxRunsPerLocation} run(s) per location` : "")
+  );
+
+  const deleted = await pruneArchive(archiveDir, { maxAgeDays, maxRunsPerLocation });
+  for (const run of deleted) {
+    console.log(`  ✓ Deleted: ${run.location}/${run.key}`);
+  }
+  console.log(`\nCleanup complete: deleted ${deleted.length} run(s)`);
+}
+
+main().catch((error) => {
+  console.error("Fatal error during archive cleanup:", error);
+  process.exit(1);
+});
@@ -1,46 +1,10 @@
 import fs from "node:fs/promises";
 import path from "node:path";
+import { saveClimatology, tallyClimatology } from "./climatology.js";
+import { HISTORY_DIR, loadHistory, updateHistoricalRange } from "./history.js";
 
-const API_DIR = path.resolve(import.meta.dirname, "..", "api");
-const HISTORY_DIR = path.join(API_DIR, "history");
 const TWO_YEARS_MS = 2 * 365 * 24 * 60 * 60 * 1000; // 2 years in milliseconds
 
-/**
- * Update the historical range metadata showing available data.
- */
-async function updateHistoricalRange(): Promise<void> {
-  try {
-    const files = await fs.readdir(HISTORY_DIR);
-    const dateFiles = files
-      .filter((f) => /^\d{4}-\d{2}-\d{2}$/.test(f))
-      .sort();
-
-    if (dateFiles.length === 0) {
-      console.log("  No historical data files found");
-      return;
-    }
-
-    const startDate = dateFiles[0];
-    const endDate = dateFiles[dateFiles.length - 1];
-    const totalDays = dateFiles.length;
-
-    const rangeData = {
-      startDate,
-      endDate,
-      totalDays,
-      lastUpdated: new Date().toISOString(),
-    };
-
-    await fs.writeFile(
-      path.join(HISTORY_DIR, "index"),
-      JSON.stringify(rangeData, null, 2) + "\n"
-    );
-    console.log(`\n  Updated history index: ${startDate} to ${endDate} (${totalDays} days)`);
-  } catch (error) {
-    console.error("  Failed to update historical range:", error);
-  }
-}
-
 /**
  * Clean up historical data by removing files older than 2 years.
  * This job runs daily to maintain the rolling 2-year window.
@@ -59,7 +23,7 @@ async function main(): Promise<void> {
     let keptCount = 0;
 
     for (const file of files) {
-      // Skip non-date files (like "recent")
+      // Skip non-date files (like "recent") and the local/ views, handled below
       if (!/^\d{4}-\d{2}-\d{2}$/.test(file)) {
         console.log(`  Skipping non-date file: ${file}`);
         continue;
@@ -75,14 +39,29 @@ async function main(): Promise<void> {
       }
     }
 
+    // The Pacific-time views of those days go too
+    const localDir = path.join(HISTORY_DIR, "local");
+    for (const file of await fs.readdir(localDir).catch(() => [] as string[])) {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(file) && new Date(file).getTime() < cutoffTime) {
+        await fs.unlink(path.join(localDir, file));
+        console.log(`  ✓ Deleted: local/${file}`);
+      }
+    }
+
     console.log(`\nCleanup complete:`);
     console.log(`  Deleted: ${deletedCount} file(s)`);
     console.log(`  Kept: ${keptCount} file(s)`);
 
     // Update the range metadata if we deleted anything
     if (deletedCount > 0 || keptCount > 0) {
-      await updateHistoricalRange();
+      await updateHistoricalRange(HISTORY_DIR);
     }
+
+    // Drop the deleted days from the climatology rollups
+    const climatology = await saveClimatology(
+      tallyClimatology(await loadHistory(HISTORY_DIR, { hourly: true }))
+    );
+    console.log(`  Rebuilt api/climatology (${climatology.length} region(s))`);
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       console.log("  History directory does not exist yet. Nothing to clean up.");
@@ -0,0 +1,20 @@
+/**
+ * Parse a numeric command-line flag, throwing on values like "5s", "-1",
+ * "" or "Infinity" rather than passing NaN or a negative number on.
+ */
+export function parseCount(
+  flag: string,
+  value: string,
+  { integer = false, allowZero = false } = {}
+): number {
+  const number = value.trim() === "" ? NaN : Number(value);
+  const valid =
+    Number.isFinite(number) &&
+    (allowZero ? number >= 0 : number > 0) &&
+    (!integer || Number.isInteger(number));
+  if (!valid) {
+    const expected = `${integer ? "a whole number" : "a number"} ${allowZero ? ">= 0" : "> 0"}`;
+    throw new Error(`Invalid --${flag} "${value}"; expected ${expected}`);
+  }
+  return number;
+}
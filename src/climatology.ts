@@ -0,0 +1,320 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  loadHistory,
+  pacificDate,
+  pacificMonthAndHour,
+  readLocalHistory,
+} from "./history.js";
+import type {
+  DayFogStats,
+  FogFrequency,
+  FogLevel,
+  HistoricalReading,
+  LocalHistoricalData,
+  RegionClimatology,
+} from "./types.js";
+
+export const CLIMATOLOGY_DIR = path.resolve(import.meta.dirname, "..", "api", "climatology");
+export const CLIMATOLOGY_STATE_PATH = path.resolve(
+  import.meta.dirname,
+  "..",
+  "data",
+  "state",
+  "climatology.json"
+);
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_GAP_HOURS = 2; // Longer gaps between readings break a clear stretch
+const FOG_LEVELS: FogLevel[] = ["clear", "light", "moderate", "heavy"];
+
+// One region's usable reading, placed in Pacific time
+interface RegionPoint {
+  time: number;
+  date: string;
+  month: number;
+  hour: number;
+  fogLevel: FogLevel;
+}
+
+type LevelCounts = Record<FogLevel, number>;
+
+// What a region's published climatology is computed from, kept between
+// runs so an hourly check only has to update the day it wrote
+export interface RegionTally {
+  counts: LevelCounts[][]; // By Pacific month (0-11), then hour
+  days: DayFogStats[]; // Oldest first
+}
+
+export type ClimatologyTally = Record<string, RegionTally>;
+
+const emptyCounts = (): LevelCounts => ({ clear: 0, light: 0, moderate: 0, heavy: 0 });
+
+const emptyTally = (): RegionTally => ({
+  counts: Array.from({ length: 12 }, () => Array.from({ length: 24 }, emptyCounts)),
+  days: [],
+});
+
+function sumCounts(counts: LevelCounts[]): LevelCounts {
+  const total = emptyCounts();
+  for (const c of counts) {
+    for (const level of FOG_LEVELS) total[level] += c[level];
+  }
+  return total;
+}
+
+// Readings from before status was tracked have no status but were usable
+const isUsable = (entry: HistoricalReading["regions"][string]) =>
+  (!entry.status || entry.status === "ok") && entry.fogLevel !== null;
+
+function toFrequency(counts: LevelCounts): FogFrequency {
+  const readings = FOG_LEVELS.reduce((sum, level) => sum + counts[level], 0);
+  const share = (level: FogLevel) =>
+    readings === 0 ? 0 : Math.round((counts[level] / readings) * 1000) / 1000;
+  return {
+    readings,
+    clear: share("clear"),
+    light: share("light"),
+    moderate: share("moderate"),
+    heavy: share("heavy"),
+  };
+}
+
+/**
+ * Each region's usable readings (status "ok", or from before status was
+ * tracked, with a fog level), oldest first.
+ */
+function regionPoints(readings: HistoricalReading[]): Map<string, RegionPoint[]> {
+  const byRegion = new Map<string, RegionPoint[]>();
+  const sorted = [...readings].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  for (const reading of sorted) {
+    const date = new Date(reading.timestamp);
+    const when = {
+      time: date.getTime(),
+      date: pacificDate(reading.timestamp),
+      ...pacificMonthAndHour(date),
+    };
+    for (const [region, entry] of Object.entries(reading.regions)) {
+      if (!isUsable(entry)) continue;
+      const points = byRegion.get(region) ?? [];
+      points.push({ ...when, fogLevel: entry.fogLevel! });
+      byRegion.set(region, points);
+    }
+  }
+  return byRegion;
+}
+
+/**
+ * Each region's usable readings in a Pacific-time day view. The view
+ * already places each reading in its local hour, so no time zone work is
+ * needed.
+ */
+function localDayPoints(day: LocalHistoricalData | null): Map<string, RegionPoint[]> {
+  const byRegion = new Map<string, RegionPoint[]>();
+  for (const { hour, reading } of day?.hours ?? []) {
+    if (!reading) continue;
+    for (const [region, entry] of Object.entries(reading.regions)) {
+      if (!isUsable(entry)) continue;
+      const points = byRegion.get(region) ?? [];
+      points.push({
+        time: new Date(reading.timestamp).getTime(),
+        date: day!.date,
+        month: Number(day!.date.slice(5, 7)),
+        hour,
+        fogLevel: entry.fogLevel!,
+      });
+      byRegion.set(region, points);
+    }
+  }
+  return byRegion;
+}
+
+// Add (or with -1, take back) points to a region's month and hour counts
+function countPoints(tally: RegionTally, points: RegionPoint[], sign: 1 | -1): void {
+  for (const point of points) {
+    tally.counts[point.month - 1][point.hour][point.fogLevel] += sign;
+  }
+}
+
+/**
+ * First clear hour, foggy hours and longest clear stretch of one day.
+ */
+function dayStats(date: string, points: RegionPoint[]): DayFogStats {
+  let longest = 0;
+  let stretch = 0;
+  for (const [i, point] of points.entries()) {
+    const continues = i > 0 && point.time - points[i - 1].time <= MAX_GAP_HOURS * HOUR_MS;
+    stretch = point.fogLevel !== "clear" ? 0 : continues ? stretch + 1 : 1;
+    longest = Math.max(longest, stretch);
+  }
+  const firstClear = points.find((p) => p.fogLevel === "clear");
+  return {
+    date,
+    readings: points.length,
+    foggyHours: points.filter((p) => p.fogLevel !== "clear").length,
+    firstClearHour: firstClear ? firstClear.hour : null,
+    longestClearHours: longest,
+  };
+}
+
+/**
+ * Tally hourly history (loadHistory with `hourly`) into each region's fog
+ * level counts by Pacific month and hour, and its per-day stats. Readings
+ * that were too dark or failed are left out.
+ */
+export function tallyClimatology(readings: HistoricalReading[]): ClimatologyTally {
+  const tally: ClimatologyTally = {};
+  for (const [region, points] of regionPoints(readings)) {
+    const regionTally = emptyTally();
+    countPoints(regionTally, points, 1);
+    const byDate = new Map<string, RegionPoint[]>();
+    for (const point of points) {
+      byDate.set(point.date, [...(byDate.get(point.date) ?? []), point]);
+    }
+    regionTally.days = [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, dayPoints]) => dayStats(date, dayPoints));
+    tally[region] = regionTally;
+  }
+  return tally;
+}
+
+/**
+ * Replace one Pacific day of a tally: take back the day's view as the
+ * tally counted it (`before`, null if it had no readings) and count the
+ * view as it stands now (`after`, from api/history/local). Only that
+ * day's month and hour counts and day stats change, so an hourly check
+ * doesn't rescan history.
+ */
+export function updateClimatologyDay(
+  tally: ClimatologyTally,
+  date: string,
+  before: LocalHistoricalData | null,
+  after: LocalHistoricalData | null
+): ClimatologyTally {
+  const next: ClimatologyTally = structuredClone(tally);
+  for (const [region, points] of localDayPoints(before)) {
+    if (next[region]) countPoints(next[region], points, -1);
+  }
+  for (const regionTally of Object.values(next)) {
+    regionTally.days = regionTally.days.filter((d) => d.date !== date);
+  }
+  for (const [region, points] of localDayPoints(after)) {
+    next[region] ??= emptyTally();
+    countPoints(next[region], points, 1);
+    next[region].days = [...next[region].days, dayStats(date, points)].sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+  }
+  for (const [region, regionTally] of Object.entries(next)) {
+    if (regionTally.days.length === 0) delete next[region];
+  }
+  return next;
+}
+
+/**
+ * Each region's climatology from its tally: the share of readings at each
+ * fog level by month and by hour of day, and per-day stats, all in
+ * Pacific time. Regions are sorted by name.
+ */
+export function summarizeClimatology(
+  tally: ClimatologyTally,
+  now = new Date()
+): RegionClimatology[] {
+  return Object.entries(tally)
+    .map(([region, { counts, days }]) => ({
+      region,
+      startDate: days[0].date,
+      endDate: days[days.length - 1].date,
+      readings: days.reduce((sum, day) => sum + day.readings, 0),
+      lastUpdated: now.toISOString(),
+      months: counts.map((hours, i) => ({
+        month: i + 1,
+        frequency: toFrequency(sumCounts(hours)),
+        hours: hours.map(toFrequency),
+      })),
+      days,
+    }))
+    .sort((a, b) => a.region.localeCompare(b.region));
+}
+
+/**
+ * Summarize hourly history (loadHistory with `hourly`) into each region's
+ * climatology in one pass; see tallyClimatology and summarizeClimatology.
+ */
+export function buildClimatology(
+  readings: HistoricalReading[],
+  now = new Date()
+): RegionClimatology[] {
+  return summarizeClimatology(tallyClimatology(readings), now);
+}
+
+/**
+ * Load the tally the last run saved, or null if there is none yet.
+ */
+export async function loadClimatologyTally(
+  statePath = CLIMATOLOGY_STATE_PATH
+): Promise<ClimatologyTally | null> {
+  try {
+    return JSON.parse(await fs.readFile(statePath, "utf-8"));
+  } catch (error) {
+    // No previous run yet
+    return null;
+  }
+}
+
+/**
+ * The tally after readings were written for one Pacific day: the saved
+ * tally with that day replaced, given the day's local view from before the
+ * write. With no saved tally yet, the whole hourly history is counted as
+ * it now stands instead; the day can't be replaced then, since the history
+ * may hold readings of that day that no local view recorded.
+ */
+export async function refreshClimatology(
+  historyDir: string,
+  date: string,
+  before: LocalHistoricalData | null,
+  statePath = CLIMATOLOGY_STATE_PATH
+): Promise<ClimatologyTally> {
+  const saved = await loadClimatologyTally(statePath);
+  if (!saved) return tallyClimatology(await loadHistory(historyDir, { hourly: true }));
+  return updateClimatologyDay(saved, date, before, await readLocalHistory(historyDir, date));
+}
+
+/**
+ * Publish a tally's climatology to api/climatology and keep the tally for
+ * the next run to update. Returns what was published.
+ */
+export async function saveClimatology(
+  tally: ClimatologyTally,
+  { dir = CLIMATOLOGY_DIR, statePath = CLIMATOLOGY_STATE_PATH } = {}
+): Promise<RegionClimatology[]> {
+  const climatology = summarizeClimatology(tally);
+  await writeClimatology(dir, climatology);
+  await fs.mkdir(path.dirname(statePath), { recursive: true });
+  await fs.writeFile(statePath, JSON.stringify(tally) + "\n");
+  return climatology;
+}
+
+/**
+ * Write api/climatology/<region> for each region, and an index listing
+ * the regions and the dates they cover without the monthly detail.
+ */
+export async function writeClimatology(
+  dir: string,
+  climatology: RegionClimatology[]
+): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  for (const region of climatology) {
+    await fs.writeFile(path.join(dir, region.region), JSON.stringify(region, null, 2) + "\n");
+  }
+  const index = climatology.map(({ region, startDate, endDate, readings, days, lastUpdated }) => ({
+    region,
+    startDate,
+    endDate,
+    readings,
+    days: days.length,
+    lastUpdated,
+  }));
+  await fs.writeFile(path.join(dir, "index"), JSON.stringify(index, null, 2) + "\n");
+}
@@ -0,0 +1,260 @@
+import sharp from "sharp";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import { findCameraById, findCameraBySource, parseResolution } from "./cameras.js";
+import type { CameraInfo, LocationConfig } from "./types.js";
+
+const PROJECT_ROOT = path.resolve(import.meta.dirname, "..");
+const LOCATIONS_DIR = path.join(PROJECT_ROOT, "data", "locations");
+export const LOCATION_SCHEMA_PATH = path.join(PROJECT_ROOT, "data", "location.schema.json");
+
+// One problem with a config, at a field path like "landmarks[1].region.x"
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export interface ConfigFileReport {
+  file: string; // Relative to the project root
+  location: string; // File name without .json
+  issues: ConfigIssue[];
+}
+
+let schemaValidator: ValidateFunction | undefined;
+
+async function loadSchemaValidator(): Promise<ValidateFunction> {
+  if (!schemaValidator) {
+    const schema = JSON.parse(await fs.readFile(LOCATION_SCHEMA_PATH, "utf-8"));
+    schemaValidator = new Ajv({ allErrors: true }).compile(schema);
+  }
+  return schemaValidator;
+}
+
+/**
+ * Turn a JSON pointer ("/landmarks/1/region") into the field path used in
+ * messages ("landmarks[1].region").
+ */
+function toFieldPath(pointer: string, property?: string): string {
+  const parts = pointer
+    .split("/")
+    .slice(1)
+    .map((p) => p.replace(/~1/g, "/").replace(/~0/g, "~"));
+  if (property !== undefined) parts.push(property);
+
+  let fieldPath = "";
+  for (const part of parts) {
+    if (/^\d+$/.test(part)) fieldPath += `[${part}]`;
+    else fieldPath += fieldPath ? `.${part}` : part;
+  }
+  return fieldPath || "(config)";
+}
+
+function describeSchemaError(error: ErrorObject): ConfigIssue {
+  const params = error.params as Record<string, unknown>;
+  switch (error.keyword) {
+    case "required":
+      return {
+        path: toFieldPath(error.instancePath, params.missingProperty as string),
+        message: "is required",
+      };
+    case "additionalProperties":
+      return {
+        path: toFieldPath(error.instancePath, params.additionalProperty as string),
+        message: "is not a known field (check for a typo)",
+      };
+    case "enum": {
+      const allowed = (params.allowedValues as unknown[]).map((v) => JSON.stringify(v));
+      return { path: toFieldPath(error.instancePath), message: `must be one of ${allowed.join(", ")}` };
+    }
+    default:
+      return { path: toFieldPath(error.instancePath), message: error.message ?? "is invalid" };
+  }
+}
+
+/**
+ * Check a parsed config against data/location.schema.json.
+ */
+export async function validateConfigSchema(config: unknown): Promise<ConfigIssue[]> {
+  const validate = await loadSchemaValidator();
+  if (validate(config)) return [];
+  // An "if" error only restates the failure of its "else" branch, reported separately
+  return (validate.errors ?? []).filter((e) => e.keyword !== "if").map(describeSchemaError);
+}
+
+function resolveProjectPath(file: string): string {
+  return path.isAbsolute(file) ? file : path.join(PROJECT_ROOT, file);
+}
+
+/**
+ * Checks the schema can't express: the config is named after its file,
+ * it names a catalog camera (or, failing that, a source), landmark names
+ * are unique, every template exists and is the size of its landmark's
+ * region, and regions fit inside the camera's frame when the camera
+ * catalog knows its exact resolution.
+ */
+async function validateConfigFiles(
+  config: LocationConfig,
+  fileName?: string
+): Promise<ConfigIssue[]> {
+  const issues: ConfigIssue[] = [];
+
+  if (fileName !== undefined && config.location !== fileName) {
+    issues.push({
+      path: "location",
+      message: `is "${config.location}" but the file is ${fileName}.json; they must match`,
+    });
+  }
+
+  let camera: CameraInfo | undefined;
+  if (config.camera && config.source) {
+    issues.push({
+      path: "source",
+      message: `can't be combined with camera; the catalog supplies "${config.camera}"'s source`,
+    });
+  } else if (config.camera) {
+    camera = await findCameraById(config.camera);
+    if (!camera) {
+      issues.push({ path: "camera", message: `"${config.camera}" is not in data/cameras.json` });
+    }
+  } else if (config.source) {
+    camera = await findCameraBySource(config.source);
+  } else {
+    issues.push({
+      path: "camera",
+      message: "is required (or a source, for cameras outside the catalog)",
+    });
+  }
+  const frame = camera && parseResolution(camera.resolution);
+  const seen = new Set<string>();
+
+  for (const [i, landmark] of config.landmarks.entries()) {
+    const at = `landmarks[${i}]`;
+    if (seen.has(landmark.name)) {
+      issues.push({ path: `${at}.name`, message: `"${landmark.name}" is used by another landmark` });
+    }
+    seen.add(landmark.name);
+
+    const { x, y, width, height } = landmark.region;
+    if (frame && (x + width > frame.width || y + height > frame.height)) {
+      issues.push({
+        path: `${at}.region`,
+        message:
+          `${width}x${height} at ${x},${y} extends past the ${frame.width}x${frame.height} ` +
+          `frame of camera "${camera!.id}"`,
+      });
+    }
+
+    const templates = [
+      { path: `${at}.templatePath`, templatePath: landmark.templatePath },
+      ...(landmark.templates ?? []).map((t, j) => ({
+        path: `${at}.templates[${j}].templatePath`,
+        templatePath: t.templatePath,
+      })),
+    ];
+    for (const template of templates) {
+      const file = resolveProjectPath(template.templatePath);
+      try {
+        await fs.access(file);
+      } catch {
+        issues.push({ path: template.path, message: `${template.templatePath} does not exist` });
+        continue;
+      }
+      let size: sharp.Metadata;
+      try {
+        size = await sharp(file).metadata();
+      } catch {
+        issues.push({ path: template.path, message: `${template.templatePath} is not a readable image` });
+        continue;
+      }
+      if (size.width !== width || size.height !== height) {
+        issues.push({
+          path: template.path,
+          message:
+            `${template.templatePath} is ${size.width}x${size.height} but the landmark region ` +
+            `is ${width}x${height}; re-crop the template or fix the region`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate a parsed location config: first against the published schema,
+ * then, if its shape is right, against the template files and camera
+ * frame it refers to. `fileName` is the config's file name without .json.
+ */
+export async function validateLocationConfig(
+  config: unknown,
+  fileName?: string
+): Promise<ConfigIssue[]> {
+  const schemaIssues = await validateConfigSchema(config);
+  if (schemaIssues.length > 0) return schemaIssues;
+  return validateConfigFiles(config as LocationConfig, fileName);
+}
+
+/**
+ * Format issues for a thrown error or the console, one per line.
+ */
+export function formatConfigIssues(file: string, issues: ConfigIssue[]): string {
+  return [`${file} is invalid:`, ...issues.map((i) => `  ${i.path}: ${i.message}`)].join("\n");
+}
+
+// A config that failed validation, with every problem for callers to show
+export class ConfigValidationError extends Error {
+  constructor(
+    file: string,
+    readonly issues: ConfigIssue[]
+  ) {
+    super(formatConfigIssues(file, issues));
+    this.name = new.target.name;
+  }
+}
+
+async function readConfigFile(configPath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(configPath, "utf-8"));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error(`${path.relative(PROJECT_ROOT, configPath)} is not valid JSON: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate every config in a locations directory, without fetching any
+ * frames. Unparseable files are reported as an issue rather than thrown.
+ */
+export async function validateLocationFiles(
+  locationsDir: string = LOCATIONS_DIR
+): Promise<ConfigFileReport[]> {
+  const files = (await fs.readdir(locationsDir)).filter((f) => f.endsWith(".json")).sort();
+  const reports: ConfigFileReport[] = [];
+  for (const name of files) {
+    const configPath = path.join(locationsDir, name);
+    const location = path.basename(name, ".json");
+    let issues: ConfigIssue[];
+    try {
+      issues = await validateLocationConfig(await readConfigFile(configPath), location);
+    } catch (error) {
+      issues = [{ path: "(file)", message: (error as Error).message }];
+    }
+    reports.push({ file: path.relative(PROJECT_ROOT, configPath), location, issues });
+  }
+  return reports;
+}
+
+/**
+ * Read and validate data/locations/<name>.json, throwing an error that
+ * lists every problem if it isn't usable.
+ */
+export async function loadLocationConfig(configPath: string): Promise<LocationConfig> {
+  const config = await readConfigFile(configPath);
+  const issues = await validateLocationConfig(config, path.basename(configPath, ".json"));
+  if (issues.length > 0) {
+    throw new ConfigValidationError(path.relative(PROJECT_ROOT, configPath), issues);
+  }
+  return config as LocationConfig;
+}
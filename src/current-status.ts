@@ -0,0 +1,47 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  CurrentStatus,
+  RegionStatus,
+  VisibilityResult,
+} from "./types.js";
+
+/**
+ * Build the api/current.json entries: one per location, in the order the
+ * locations were checked. A location carries its region's prediction when
+ * its own reading was usable, since the forecast is made per region.
+ */
+export function buildCurrentStatus(
+  results: VisibilityResult[],
+  regions: RegionStatus[]
+): CurrentStatus[] {
+  const predictions = new Map(
+    regions.map((r) => [r.region, r.prediction ?? null])
+  );
+
+  return results.map((result) => ({
+    location: result.location,
+    currentStatus: {
+      status: result.status,
+      fogLevel: result.fogLevel,
+      visibilityScore: result.visibilityScore,
+      timestamp: result.timestamp,
+    },
+    prediction:
+      result.status === "ok" ? (predictions.get(result.region) ?? null) : null,
+  }));
+}
+
+/**
+ * Write <apiDir>/current.json from this run's readings. Returns the entries
+ * written.
+ */
+export async function writeCurrentStatus(
+  apiDir: string,
+  results: VisibilityResult[],
+  regions: RegionStatus[]
+): Promise<CurrentStatus[]> {
+  const current = buildCurrentStatus(results, regions);
+  await fs.writeFile(path.join(apiDir, "current.json"), JSON.stringify(current, null, 2) + "\n");
+  return current;
+}
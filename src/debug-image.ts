@@ -0,0 +1,140 @@
+import sharp from "sharp";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { landmarkCropBox, type ComparedLandmark } from "./frame-archive.js";
+import type { FogLevel, VisibilityResult } from "./types.js";
+
+export const DEBUG_DIR = path.resolve(import.meta.dirname, "..", "api", "debug");
+
+const HEADER_HEIGHT = 32;
+const TILE_HEIGHT = 96; // Template and live crop are scaled to this height
+const TILE_GAP = 8;
+const LABEL_HEIGHT = 20;
+const CHAR_WIDTH = 7; // Rough width of a 12px sans-serif character
+
+const VISIBLE_COLOR = "#4ade80";
+const OBSCURED_COLOR = "#f87171";
+// Matches the fog level colors on the site
+const LEVEL_COLORS: Record<FogLevel, string> = {
+  clear: "#4ade80",
+  light: "#facc15",
+  moderate: "#fb923c",
+  heavy: "#f87171",
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function headline(reading: VisibilityResult): { text: string; color: string } {
+  if (reading.status !== "ok" || reading.fogLevel === null) {
+    return {
+      text: `${reading.location}: ${reading.status} (${reading.statusReason ?? "no reading"})`,
+      color: "#9ca3af",
+    };
+  }
+  return {
+    text:
+      `${reading.location}: ${reading.fogLevel.toUpperCase()}, ` +
+      `${reading.landmarksVisible}/${reading.totalLandmarks} landmarks visible ` +
+      `(score ${reading.visibilityScore}, ${reading.lighting})`,
+    color: LEVEL_COLORS[reading.fogLevel],
+  };
+}
+
+/**
+ * Draw a reading over its frame for threshold tuning: a header with the
+ * fog level, every compared landmark's box (green if visible, red if not)
+ * labeled with its similarity against the threshold, and below the frame
+ * each landmark's template next to the live crop it was compared with.
+ * Boxes are drawn where the landmark matched when drift search moved it.
+ */
+export async function renderDebugImage(
+  frame: Buffer,
+  landmarks: ComparedLandmark[],
+  reading: VisibilityResult
+): Promise<Buffer> {
+  const { width: frameWidth = 0, height: frameHeight = 0 } = await sharp(frame).metadata();
+  const details = new Map(reading.landmarkDetails.map((d) => [d.name, d]));
+
+  const shapes: string[] = [];
+  const tiles: sharp.OverlayOptions[] = [];
+  const stripTop = HEADER_HEIGHT + frameHeight + TILE_GAP;
+  let stripX = TILE_GAP;
+
+  for (const compared of landmarks) {
+    const detail = details.get(compared.landmark.name);
+    const box = landmarkCropBox(compared.landmark, compared.offset, frameWidth, frameHeight);
+    const color = detail?.visible ? VISIBLE_COLOR : OBSCURED_COLOR;
+    const label =
+      `${compared.landmark.name} ${detail?.similarity.toFixed(2) ?? "?"}` +
+      `${detail?.visible ? " ≥ " : " < "}${compared.threshold.toFixed(2)}`;
+
+    const labelY = HEADER_HEIGHT + Math.max(box.top - 4, 12);
+    shapes.push(
+      `<rect x="${box.left}" y="${HEADER_HEIGHT + box.top}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="2"/>`,
+      `<rect x="${box.left}" y="${labelY - 12}" width="${label.length * CHAR_WIDTH + 4}" height="16" fill="#000" fill-opacity="0.6"/>`,
+      `<text x="${box.left + 2}" y="${labelY}" fill="${color}" font-size="12" font-family="sans-serif">${escapeXml(label)}</text>`
+    );
+
+    // Template and live crop side by side, both at tile height
+    const scaledWidth = Math.max(1, Math.round((box.width * TILE_HEIGHT) / box.height));
+    const live = await sharp(frame).extract(box).resize(scaledWidth, TILE_HEIGHT).png().toBuffer();
+    let template: Buffer | undefined;
+    try {
+      template = await sharp(compared.templatePath)
+        .resize(scaledWidth, TILE_HEIGHT, { fit: "fill" })
+        .png()
+        .toBuffer();
+    } catch {
+      // A missing template still leaves the live crop worth seeing
+    }
+    if (template) tiles.push({ input: template, left: stripX, top: stripTop });
+    tiles.push({ input: live, left: stripX + scaledWidth, top: stripTop });
+    const caption = `${compared.landmark.name}: template | live`;
+    shapes.push(
+      `<rect x="${stripX + scaledWidth}" y="${stripTop}" width="${scaledWidth}" height="${TILE_HEIGHT}" fill="none" stroke="${color}" stroke-width="2"/>`,
+      `<text x="${stripX}" y="${stripTop + TILE_HEIGHT + 14}" fill="#e5e7eb" font-size="12" font-family="sans-serif">${escapeXml(caption)}</text>`
+    );
+    // Narrow pairs leave room for their caption
+    stripX += Math.max(2 * scaledWidth, caption.length * CHAR_WIDTH) + TILE_GAP;
+  }
+
+  const width = Math.max(frameWidth, stripX);
+  const height =
+    HEADER_HEIGHT +
+    frameHeight +
+    (landmarks.length > 0 ? TILE_GAP + TILE_HEIGHT + LABEL_HEIGHT : 0);
+  const { text, color } = headline(reading);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text x="8" y="22" fill="${color}" font-size="16" font-weight="bold" font-family="sans-serif">${escapeXml(text)}</text>` +
+    shapes.join("") +
+    `</svg>`;
+
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 17, g: 17, b: 17 } },
+  })
+    .composite([
+      { input: frame, left: 0, top: HEADER_HEIGHT },
+      ...tiles,
+      { input: Buffer.from(svg), left: 0, top: 0 },
+    ])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Render a reading's debug image to <debugDir>/<location>.png, replacing
+ * the previous run's. Returns the file written.
+ */
+export async function writeDebugImage(
+  debugDir: string,
+  frame: Buffer,
+  landmarks: ComparedLandmark[],
+  reading: VisibilityResult
+): Promise<string> {
+  await fs.mkdir(debugDir, { recursive: true });
+  const file = path.join(debugDir, `${reading.location}.png`);
+  await fs.writeFile(file, await renderDebugImage(frame, landmarks, reading));
+  return file;
+}
@@ -0,0 +1,77 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  GOLDEN_DIR,
+  evaluateGoldenSet,
+  findRegressions,
+  toBaseline,
+  type EvaluationBaseline,
+} from "./evaluation.js";
+
+const format = (value: number | null) =>
+  value === null ? "  n/a" : `${(value * 100).toFixed(0).padStart(4)}%`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: "string", default: GOLDEN_DIR },
+      "update-baseline": { type: "boolean", default: false },
+    },
+  });
+  const goldenDir = path.resolve(values.dir);
+  const baselinePath = path.join(goldenDir, "baseline.json");
+
+  console.log(`Evaluating ${path.relative(process.cwd(), goldenDir)}...\n`);
+  const report = await evaluateGoldenSet(goldenDir);
+
+  console.log(`Frames: ${report.frames} (${report.syntheticFrames} synthetic)`);
+  if (report.syntheticFrames === report.frames) {
+    console.log("  No real captures yet: these scores can't show how the detector does on real fog");
+  }
+  console.log(`Landmark accuracy: ${format(report.landmarkAccuracy)}`);
+  console.log(`Fog level accuracy: ${format(report.levelAccuracy)}\n`);
+
+  console.log("Landmarks (positive = visible)               precision  recall");
+  for (const [key, result] of Object.entries(report.landmarks)) {
+    console.log(`  ${key.padEnd(44)}${format(result.precision)}    ${format(result.recall)}`);
+  }
+  console.log("\nFog levels                                   precision  recall  frames");
+  for (const [level, result] of Object.entries(report.levels)) {
+    console.log(
+      `  ${level.padEnd(44)}${format(result.precision)}    ${format(result.recall)}  ${result.support}`
+    );
+  }
+
+  if (report.mismatches.length > 0) {
+    console.log("\nMismatches:");
+    for (const m of report.mismatches) {
+      console.log(`  ${m.file}${m.landmark ? ` ${m.landmark}` : ""}: expected ${m.expected}, got ${m.actual}`);
+    }
+  }
+
+  if (values["update-baseline"]) {
+    await fs.writeFile(baselinePath, JSON.stringify(toBaseline(report), null, 2) + "\n");
+    console.log(`\n✓ Baseline updated`);
+    return;
+  }
+
+  try {
+    const baseline: EvaluationBaseline = JSON.parse(await fs.readFile(baselinePath, "utf-8"));
+    const regressions = findRegressions(report, baseline);
+    if (regressions.length > 0) {
+      console.log("\n✗ Below baseline:");
+      regressions.forEach((r) => console.log(`  ${r}`));
+      process.exit(1);
+    }
+    console.log("\n✓ At or above baseline");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    console.log("\nNo baseline yet. Run with --update-baseline to record one.");
+  }
+}
+
+main().catch((error) => {
+  console.error("Evaluation failed:", error);
+  process.exit(1);
+});
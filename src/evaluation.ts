@@ -0,0 +1,220 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { checkLandmarkVisibility, getFogLevel } from "./fog-detector.js";
+import type { ConfusionMatrix } from "./calibration.js";
+import type { FogLevel, LightingCondition, LocationConfig } from "./types.js";
+
+const PROJECT_ROOT = path.resolve(import.meta.dirname, "..");
+const DATA_DIR = path.join(PROJECT_ROOT, "data", "locations");
+export const GOLDEN_DIR = path.join(PROJECT_ROOT, "src", "__tests__", "fixtures", "golden");
+
+const FOG_LEVELS: FogLevel[] = ["clear", "light", "moderate", "heavy"];
+
+// One labeled frame in <golden dir>/manifest.json
+export interface GoldenFrame {
+  file: string;
+  location: string; // Config in data/locations the frame was captured for
+  lighting: LightingCondition;
+  fogLevel: FogLevel; // Ground truth
+  landmarks: Record<string, boolean>; // Ground-truth visibility per landmark
+  synthetic?: boolean; // Built from the templates rather than captured by the camera
+}
+
+// Precision and recall are null when nothing was predicted / labeled
+export interface PrecisionRecall {
+  precision: number | null;
+  recall: number | null;
+}
+
+// Positive means the landmark is visible, as in calibration
+export interface LandmarkEvaluation extends ConfusionMatrix, PrecisionRecall {}
+
+export interface LevelEvaluation extends PrecisionRecall {
+  support: number; // Frames labeled with this level
+}
+
+export interface Mismatch {
+  file: string;
+  landmark?: string; // Absent for fog level mismatches
+  expected: string;
+  actual: string;
+}
+
+export interface EvaluationReport {
+  frames: number;
+  syntheticFrames: number; // Scores on these only show the detector agrees with its own templates
+  landmarkAccuracy: number;
+  levelAccuracy: number;
+  landmarks: Record<string, LandmarkEvaluation>; // Keyed "<location>/<landmark>"
+  levels: Record<FogLevel, LevelEvaluation>;
+  mismatches: Mismatch[];
+}
+
+// The scores a change must not drop below, from a previous report
+export interface EvaluationBaseline {
+  landmarkAccuracy: number;
+  levelAccuracy: number;
+  landmarks: Record<string, PrecisionRecall>;
+  levels: Record<FogLevel, PrecisionRecall>;
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000;
+
+/**
+ * Run every frame of a labeled set through checkLandmarkVisibility with
+ * the current location configs, and score the predictions per landmark
+ * and per fog level against the ground truth.
+ */
+export async function evaluateGoldenSet(
+  goldenDir: string = GOLDEN_DIR
+): Promise<EvaluationReport> {
+  const { frames }: { frames: GoldenFrame[] } = JSON.parse(
+    await fs.readFile(path.join(goldenDir, "manifest.json"), "utf-8")
+  );
+
+  const configs = new Map<string, LocationConfig>();
+  const matrices = new Map<string, ConfusionMatrix>();
+  const levels: { expected: FogLevel; actual: FogLevel }[] = [];
+  const mismatches: Mismatch[] = [];
+
+  for (const frame of frames) {
+    if (!configs.has(frame.location)) {
+      configs.set(
+        frame.location,
+        JSON.parse(await fs.readFile(path.join(DATA_DIR, `${frame.location}.json`), "utf-8"))
+      );
+    }
+    const config = configs.get(frame.location)!;
+    const buffer = await fs.readFile(path.join(goldenDir, frame.file));
+
+    let visibleCount = 0;
+    for (const [name, expected] of Object.entries(frame.landmarks)) {
+      const landmark = config.landmarks.find((l) => l.name === name);
+      if (!landmark) {
+        throw new Error(`${frame.file}: unknown landmark "${name}" for ${frame.location}`);
+      }
+      const result = await checkLandmarkVisibility(
+        buffer,
+        landmark,
+        frame.lighting,
+        config.driftSearch
+      );
+      if (result.visible) visibleCount++;
+      if (result.visible !== expected) {
+        mismatches.push({
+          file: frame.file,
+          landmark: name,
+          expected: expected ? "visible" : "obscured",
+          actual: `${result.visible ? "visible" : "obscured"} (similarity ${result.similarity})`,
+        });
+      }
+
+      const key = `${frame.location}/${name}`;
+      if (!matrices.has(key)) {
+        matrices.set(key, { truePositive: 0, falseNegative: 0, falsePositive: 0, trueNegative: 0 });
+      }
+      const matrix = matrices.get(key)!;
+      if (expected) {
+        if (result.visible) matrix.truePositive++;
+        else matrix.falseNegative++;
+      } else if (result.visible) {
+        matrix.falsePositive++;
+      } else {
+        matrix.trueNegative++;
+      }
+    }
+
+    const total = Object.keys(frame.landmarks).length;
+    const actual = getFogLevel((visibleCount / total) * 100);
+    levels.push({ expected: frame.fogLevel, actual });
+    if (actual !== frame.fogLevel) {
+      mismatches.push({ file: frame.file, expected: frame.fogLevel, actual });
+    }
+  }
+
+  const landmarks: Record<string, LandmarkEvaluation> = {};
+  let correct = 0;
+  let total = 0;
+  for (const [key, matrix] of matrices) {
+    landmarks[key] = {
+      ...matrix,
+      precision: ratio(matrix.truePositive, matrix.truePositive + matrix.falsePositive),
+      recall: ratio(matrix.truePositive, matrix.truePositive + matrix.falseNegative),
+    };
+    correct += matrix.truePositive + matrix.trueNegative;
+    total += matrix.truePositive + matrix.falseNegative + matrix.falsePositive + matrix.trueNegative;
+  }
+
+  const levelEvaluations = Object.fromEntries(
+    FOG_LEVELS.map((level) => {
+      const predicted = levels.filter((l) => l.actual === level);
+      const labeled = levels.filter((l) => l.expected === level);
+      const hits = labeled.filter((l) => l.actual === level).length;
+      return [
+        level,
+        {
+          precision: ratio(hits, predicted.length),
+          recall: ratio(hits, labeled.length),
+          support: labeled.length,
+        },
+      ];
+    })
+  ) as Record<FogLevel, LevelEvaluation>;
+
+  return {
+    frames: frames.length,
+    syntheticFrames: frames.filter((f) => f.synthetic).length,
+    landmarkAccuracy: ratio(correct, total) ?? 0,
+    levelAccuracy: ratio(levels.filter((l) => l.actual === l.expected).length, levels.length) ?? 0,
+    landmarks,
+    levels: levelEvaluations,
+    mismatches,
+  };
+}
+
+/** Reduce a report to the scores recorded as the baseline. */
+export function toBaseline(report: EvaluationReport): EvaluationBaseline {
+  const pick = ({ precision, recall }: PrecisionRecall) => ({ precision, recall });
+  return {
+    landmarkAccuracy: report.landmarkAccuracy,
+    levelAccuracy: report.levelAccuracy,
+    landmarks: Object.fromEntries(
+      Object.entries(report.landmarks).map(([key, value]) => [key, pick(value)])
+    ),
+    levels: Object.fromEntries(
+      Object.entries(report.levels).map(([key, value]) => [key, pick(value)])
+    ) as Record<FogLevel, PrecisionRecall>,
+  };
+}
+
+/**
+ * List every score that fell below the baseline. Scores the baseline
+ * couldn't measure (null) are not held to anything.
+ */
+export function findRegressions(
+  report: EvaluationReport,
+  baseline: EvaluationBaseline
+): string[] {
+  const regressions: string[] = [];
+  const check = (label: string, actual: number | null | undefined, expected: number | null) => {
+    if (expected === null) return;
+    if (actual === null || actual === undefined || actual < expected) {
+      regressions.push(`${label}: ${actual ?? "missing"} < baseline ${expected}`);
+    }
+  };
+
+  check("landmark accuracy", report.landmarkAccuracy, baseline.landmarkAccuracy);
+  check("level accuracy", report.levelAccuracy, baseline.levelAccuracy);
+  for (const [key, expected] of Object.entries(baseline.landmarks)) {
+    check(`${key} precision`, report.landmarks[key]?.precision, expected.precision);
+    check(`${key} recall`, report.landmarks[key]?.recall, expected.recall);
+  }
+  for (const level of FOG_LEVELS) {
+    const expected = baseline.levels[level];
+    if (!expected) continue;
+    check(`${level} precision`, report.levels[level].precision, expected.precision);
+    check(`${level} recall`, report.levels[level].recall, expected.recall);
+  }
+  return regressions;
+}
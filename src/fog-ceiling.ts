@@ -0,0 +1,51 @@
+import type { FogCeiling } from "./types.js";
+
+/**
+ * Estimate the fog base from which landmark elevations are visible. The
+ * base sits above the highest landmark still visible and below the lowest
+ * obscured landmark above that. Obscured landmarks lower than a visible one
+ * are hidden by distance rather than height, so they don't bound the base.
+ * Returns undefined when no landmark has an elevation.
+ */
+export function estimateFogCeiling(
+  landmarks: { visible: boolean; elevationM?: number }[]
+): FogCeiling | undefined {
+  const known = landmarks.filter(
+    (l): l is { visible: boolean; elevationM: number } => l.elevationM !== undefined
+  );
+  if (known.length === 0) return undefined;
+
+  const visible = known.filter((l) => l.visible).map((l) => l.elevationM);
+  const minM = visible.length > 0 ? Math.max(...visible) : null;
+  const above = known
+    .filter((l) => !l.visible && (minM === null || l.elevationM > minM))
+    .map((l) => l.elevationM);
+  const maxM = above.length > 0 ? Math.min(...above) : null;
+
+  return toCeiling(minM, maxM);
+}
+
+/**
+ * Combine the ceilings seen by several cameras in one region, keeping the
+ * highest proven clear elevation and the lowest obscured one above it.
+ */
+export function combineFogCeilings(
+  ceilings: FogCeiling[]
+): FogCeiling | undefined {
+  if (ceilings.length === 0) return undefined;
+  const clear = ceilings
+    .map((c) => c.minM)
+    .filter((m): m is number => m !== null);
+  const minM = clear.length > 0 ? Math.max(...clear) : null;
+  const obscured = ceilings
+    .map((c) => c.maxM)
+    .filter((m): m is number => m !== null && (minM === null || m > minM));
+  return toCeiling(minM, obscured.length > 0 ? Math.min(...obscured) : null);
+}
+
+function toCeiling(minM: number | null, maxM: number | null): FogCeiling {
+  let layer: FogCeiling["layer"] = "elevated";
+  if (maxM === null) layer = "none";
+  else if (minM === null) layer = "surface";
+  return { minM, maxM, layer };
+}
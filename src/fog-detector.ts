@@ -1,68 +1,178 @@
 import sharp from "sharp";
-import pixelmatch from "pixelmatch";
-import { PNG } from "pngjs";
-import fs from "node:fs/promises";
 import path from "node:path";
-import { fetchWebcamImage } from "./image-fetcher.js";
+import { fetchWebcamImage, type FetchOptions } from "./image-fetcher.js";
+import { compareImages, type GrayImage } from "./similarity.js";
+import { findBestAlignment, stretchContrast } from "./alignment.js";
+import { assessFrameQuality } from "./frame-quality.js";
+import { parseResolution, resolveLocationCamera } from "./cameras.js";
+import {
+  estimateVisibilityRange,
+  landmarkDistanceKm,
+} from "./visibility-range.js";
+import { estimateFogCeiling } from "./fog-ceiling.js";
+import { archiveRun, type ComparedLandmark } from "./frame-archive.js";
+import { writeDebugImage } from "./debug-image.js";
+import { loadLocationConfig } from "./config-validation.js";
+import {
+  SAN_FRANCISCO,
+  getLightingCondition,
+  getSunElevation,
+} from "./solar.js";
 import type {
+  CameraInfo,
+  DriftSearch,
   FogLevel,
+  FrameQuality,
+  LandmarkDetail,
   LandmarkTemplate,
+  LightingCondition,
   LocationConfig,
+  PixelOffset,
+  SimilarityMetric,
   VisibilityResult,
+  WebcamSource,
 } from "./types.js";
 
 const PROJECT_ROOT = path.resolve(import.meta.dirname, "..");
 const DATA_DIR = path.join(PROJECT_ROOT, "data", "locations");
 
+// Which template lighting to try, in order, when no exact match is configured
+const LIGHTING_FALLBACKS: Record<LightingCondition, LightingCondition[]> = {
+  day: ["day"],
+  twilight: ["twilight", "day"],
+  night: ["night", "twilight", "day"],
+};
+
+/**
+ * Pick the template that best matches the current lighting. Landmarks
+ * without lighting-specific templates always use their clear-day template.
+ */
+export function selectTemplate(
+  landmark: LandmarkTemplate,
+  lighting: LightingCondition
+): { templatePath: string; threshold: number; lighting: LightingCondition } {
+  for (const candidate of LIGHTING_FALLBACKS[lighting]) {
+    const match = landmark.templates?.find((t) => t.lighting === candidate);
+    if (match) {
+      return {
+        templatePath: match.templatePath,
+        threshold: match.threshold ?? landmark.threshold,
+        lighting: candidate,
+      };
+    }
+  }
+  return {
+    templatePath: landmark.templatePath,
+    threshold: landmark.threshold,
+    lighting: "day",
+  };
+}
+
+/**
+ * Resolve a template path from a location config: absolute paths are used
+ * as-is, anything else is relative to the project root.
+ */
+function resolveTemplatePath(templatePath: string): string {
+  return path.isAbsolute(templatePath)
+    ? templatePath
+    : path.join(PROJECT_ROOT, templatePath);
+}
+
+/**
+ * Convert an image to single-channel grayscale pixels, optionally
+ * normalized to stretch contrast across the full range.
+ */
+async function toGray(image: sharp.Sharp, normalize = true): Promise<GrayImage> {
+  const { data, info } = await (normalize ? image.grayscale().normalize() : image.grayscale())
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // grayscale() keeps an alpha channel when the source has one; drop it
+  if (info.channels === 1) {
+    return { data, width: info.width, height: info.height };
+  }
+  const gray = new Uint8Array(info.width * info.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * info.channels];
+  }
+  return { data: gray, width: info.width, height: info.height };
+}
+
 /**
  * Compare a specific region of a live webcam image against a stored template.
  * Both images are converted to grayscale and normalized to reduce sensitivity
- * to lighting changes throughout the day.
+ * to lighting changes throughout the day, then scored with the landmark's
+ * similarity metric (pixelmatch unless configured otherwise).
+ *
+ * With a drift search, the region is also tried at nearby offsets and the
+ * best-aligned position wins, so a camera that has shifted a few pixels
+ * still matches on a clear day.
  */
 export async function checkLandmarkVisibility(
   webcamBuffer: Buffer,
-  landmark: LandmarkTemplate
-): Promise<{ visible: boolean; similarity: number }> {
+  landmark: LandmarkTemplate,
+  lighting: LightingCondition = "day",
+  driftSearch?: DriftSearch
+): Promise<{
+  visible: boolean;
+  similarity: number;
+  lighting: LightingCondition;
+  metric: SimilarityMetric;
+  rawScore: number;
+  offset?: PixelOffset;
+}> {
   const { x, y, width, height } = landmark.region;
+  const template = selectTemplate(landmark, lighting);
+  const metric = landmark.metric ?? "pixelmatch";
 
-  // Extract the landmark region from the live webcam image
-  const webcamRegionPng = await sharp(webcamBuffer)
-    .extract({ left: x, top: y, width, height })
-    .grayscale()
-    .normalize()
-    .png()
-    .toBuffer();
-
-  // Load and process the stored template the same way
-  // Resolve template path: if absolute, use as-is; otherwise resolve relative to project root
-  const absoluteTemplatePath = path.isAbsolute(landmark.templatePath)
-    ? landmark.templatePath
-    : path.join(PROJECT_ROOT, landmark.templatePath);
-  const templatePng = await sharp(absoluteTemplatePath)
-    .grayscale()
-    .normalize()
-    .png()
-    .toBuffer();
-
-  // Decode both as PNG for pixelmatch
-  const webcamImg = PNG.sync.read(webcamRegionPng);
-  const templateImg = PNG.sync.read(templatePng);
-
-  const diff = pixelmatch(
-    webcamImg.data,
-    templateImg.data,
-    undefined,
-    width,
-    height,
-    { threshold: 0.1 }
-  );
+  const absoluteTemplatePath = resolveTemplatePath(template.templatePath);
 
-  const totalPixels = width * height;
-  const similarity = 1 - diff / totalPixels;
+  let match: { similarity: number; rawScore: number; offset?: PixelOffset };
+
+  if (driftSearch && driftSearch.radius > 0) {
+    // Normalize in memory so every candidate crop is stretched on its own
+    const frame = await toGray(sharp(webcamBuffer), false);
+    const templateImg = stretchContrast(
+      await toGray(sharp(absoluteTemplatePath), false)
+    );
+    match = findBestAlignment(frame, landmark.region, templateImg, metric, driftSearch);
+  } else {
+    // Extract the landmark region from the live webcam image
+    const webcamImg = await toGray(
+      sharp(webcamBuffer).extract({ left: x, top: y, width, height })
+    );
+    // Load and process the stored template the same way
+    const templateImg = await toGray(sharp(absoluteTemplatePath));
+    match = compareImages(metric, webcamImg, templateImg);
+  }
 
   return {
-    visible: similarity >= landmark.threshold,
-    similarity: Math.round(similarity * 100) / 100,
+    visible: match.similarity >= template.threshold,
+    similarity: Math.round(match.similarity * 100) / 100,
+    lighting: template.lighting,
+    metric,
+    rawScore: Math.round(match.rawScore * 1000) / 1000,
+    ...(match.offset && { offset: match.offset }),
+  };
+}
+
+/**
+ * Estimate how far the camera has drifted from the median offset of the
+ * landmarks that matched. Obscured landmarks are ignored since their best
+ * position is just noise.
+ */
+function estimateCameraOffset(
+  offsets: PixelOffset[]
+): PixelOffset | undefined {
+  if (offsets.length === 0) return undefined;
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+  };
+  return {
+    x: median(offsets.map((o) => o.x)),
+    y: median(offsets.map((o) => o.y)),
   };
 }
 
@@ -76,44 +186,242 @@ export function getFogLevel(score: number): FogLevel {
   return "heavy";
 }
 
+/**
+ * Whether a template captured under one lighting condition can be trusted
+ * for a frame captured under another. Clear-day templates hold up through
+ * twilight, but after dark only a night template is meaningful.
+ */
+function isTemplateUsable(
+  templateLighting: LightingCondition,
+  frameLighting: LightingCondition
+): boolean {
+  return frameLighting !== "night" || templateLighting === "night";
+}
+
+export interface AnalyzeOptions {
+  previousFrameHash?: string; // Fingerprint of the last frame, to spot frozen streams
+  archiveDir?: string; // Save the frame, landmark crops and reading here
+  debugDir?: string; // Render an annotated copy of the frame here
+  // Replays supply a stored frame and when it was captured
+  fetchImage?: (source: WebcamSource) => Promise<Buffer>;
+  capturedAt?: Date;
+  fetchOptions?: FetchOptions; // Timeouts and retries for live fetches
+}
+
+/**
+ * URL path of a file under the project root as the site serves it
+ * (e.g. "/api/debug/salesforce-north.png"); files outside it keep their
+ * filesystem path.
+ */
+function toSitePath(file: string): string {
+  const relative = path.relative(PROJECT_ROOT, file);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return file;
+  return "/" + relative.split(path.sep).join("/");
+}
+
+/**
+ * An "error" reading for a location whose camera couldn't be read or
+ * analyzed. A camera that fails still reports, so its region can say why.
+ */
+export function failedReading(
+  config: LocationConfig,
+  camera: CameraInfo | undefined,
+  capturedAt: Date,
+  statusReason: string,
+  errorClass: string,
+  frameQuality?: FrameQuality
+): VisibilityResult {
+  const sunElevation = getSunElevation(capturedAt, config.coordinates ?? SAN_FRANCISCO);
+  return {
+    location: config.location,
+    ...(camera && { camera: camera.id }),
+    region: config.region,
+    weight: config.weight ?? 1,
+    status: "error",
+    statusReason,
+    errorClass,
+    landmarksVisible: 0,
+    totalLandmarks: 0,
+    visibilityScore: null,
+    fogLevel: null,
+    timestamp: capturedAt.toISOString(),
+    sunElevation,
+    lighting: getLightingCondition(sunElevation),
+    ...(frameQuality && { frameQuality }),
+    landmarkDetails: [],
+  };
+}
+
 /**
  * Fetch a webcam image and analyze fog conditions by checking each
- * configured landmark against its clear-day template.
+ * configured landmark against the template for the current lighting.
+ * Frames that fail the quality gate produce an "error" reading instead of
+ * a fog level. Landmarks without a usable template for the current
+ * lighting are skipped; if none are left, the reading is indeterminate.
+ * With an archive directory, every fetched frame is archived along with
+ * its landmark crops and the reading, including rejected frames. With a
+ * debug directory, an annotated copy of the frame is rendered there and
+ * linked from the reading as `debugImage`.
  */
 export async function analyzeFogLevel(
-  locationName: string
+  locationName: string,
+  options: AnalyzeOptions = {}
 ): Promise<VisibilityResult> {
-  const configPath = path.join(DATA_DIR, `${locationName}.json`);
-  const configData = await fs.readFile(configPath, "utf-8");
-  const config: LocationConfig = JSON.parse(configData);
+  const config = await loadLocationConfig(path.join(DATA_DIR, `${locationName}.json`));
+  const { source, camera } = await resolveLocationCamera(config);
+
+  const capturedAt = options.capturedAt ?? new Date();
+  const sunElevation = getSunElevation(
+    capturedAt,
+    config.coordinates ?? SAN_FRANCISCO
+  );
+  const lighting = getLightingCondition(sunElevation);
+
+  const failed = (
+    statusReason: string,
+    errorClass: string,
+    frameQuality?: FrameQuality
+  ): VisibilityResult =>
+    failedReading(config, camera, capturedAt, statusReason, errorClass, frameQuality);
 
   // Fetch current webcam image (supports both direct URLs and HLS streams)
-  const webcamBuffer = await fetchWebcamImage(config.source);
+  let webcamBuffer: Buffer;
+  try {
+    webcamBuffer = options.fetchImage
+      ? await options.fetchImage(source)
+      : await fetchWebcamImage(source, options.fetchOptions);
+  } catch (error) {
+    return failed(`Fetch failed: ${(error as Error).message}`, (error as Error).name);
+  }
+
+  // Reject dead, frozen or mangled frames before they read as fog. A payload
+  // that isn't an image at all (e.g. a CDN error page) can't be assessed.
+  let frameQuality: FrameQuality;
+  let rejection: string | undefined;
+  try {
+    ({ quality: frameQuality, rejection } = await assessFrameQuality(webcamBuffer, {
+      expectedResolution: camera && parseResolution(camera.resolution),
+      previousHash: options.previousFrameHash,
+    }));
+  } catch (error) {
+    return failed(`Frame rejected: unreadable image (${(error as Error).message})`, "FrameRejected");
+  }
+
+  // Archiving and debug output are best-effort: a full disk shouldn't cost the reading
+  const compared: ComparedLandmark[] = [];
+  const finish = async (reading: VisibilityResult): Promise<VisibilityResult> => {
+    if (options.debugDir) {
+      try {
+        const file = await writeDebugImage(options.debugDir, webcamBuffer, compared, reading);
+        reading = { ...reading, debugImage: toSitePath(file) };
+      } catch (error) {
+        console.error(`  Failed to render debug image for ${config.location}:`, error);
+      }
+    }
+    if (options.archiveDir) {
+      try {
+        await archiveRun(options.archiveDir, {
+          frame: webcamBuffer,
+          landmarks: compared,
+          reading,
+        });
+      } catch (error) {
+        console.error(`  Failed to archive ${config.location}:`, error);
+      }
+    }
+    return reading;
+  };
+
+  if (rejection) {
+    return finish(failed(`Frame rejected: ${rejection}`, "FrameRejected", frameQuality));
+  }
 
   // Check each landmark at its stored pixel coordinates
   let visibleCount = 0;
-  const landmarkDetails = [];
+  const landmarkDetails: LandmarkDetail[] = [];
+  const visibleOffsets: PixelOffset[] = [];
 
   for (const landmark of config.landmarks) {
-    const result = await checkLandmarkVisibility(webcamBuffer, landmark);
-    if (result.visible) visibleCount++;
+    const template = selectTemplate(landmark, lighting);
+    if (!isTemplateUsable(template.lighting, lighting)) continue;
+
+    // A region outside this frame (e.g. the camera changed resolution) can't be compared
+    let result: Awaited<ReturnType<typeof checkLandmarkVisibility>>;
+    try {
+      result = await checkLandmarkVisibility(webcamBuffer, landmark, lighting, config.driftSearch);
+    } catch (error) {
+      return finish(
+        failed(
+          `Frame rejected: couldn't compare ${landmark.name} (${(error as Error).message})`,
+          "FrameRejected",
+          frameQuality
+        )
+      );
+    }
+    compared.push({
+      landmark,
+      templatePath: resolveTemplatePath(template.templatePath),
+      threshold: template.threshold,
+      ...(result.offset && { offset: result.offset }),
+    });
+    if (result.visible) {
+      visibleCount++;
+      if (result.offset) visibleOffsets.push(result.offset);
+    }
+    const distanceKm = landmarkDistanceKm(landmark, config.coordinates);
     landmarkDetails.push({
       name: landmark.name,
       visible: result.visible,
       similarity: result.similarity,
+      lighting: result.lighting,
+      metric: result.metric,
+      rawScore: result.rawScore,
+      ...(result.offset && { offset: result.offset }),
+      ...(distanceKm !== undefined && { distanceKm }),
+      ...(landmark.elevationM !== undefined && { elevationM: landmark.elevationM }),
     });
   }
 
-  const visibilityScore = (visibleCount / config.landmarks.length) * 100;
+  const cameraOffset = estimateCameraOffset(visibleOffsets);
 
-  return {
+  const base = {
     location: config.location,
+    ...(camera && { camera: camera.id }),
     region: config.region,
+    weight: config.weight ?? 1,
     landmarksVisible: visibleCount,
-    totalLandmarks: config.landmarks.length,
-    visibilityScore: Math.round(visibilityScore),
-    fogLevel: getFogLevel(visibilityScore),
-    timestamp: new Date().toISOString(),
+    totalLandmarks: landmarkDetails.length,
+    timestamp: capturedAt.toISOString(),
+    sunElevation,
+    lighting,
+    ...(cameraOffset && { cameraOffset }),
+    frameQuality,
     landmarkDetails,
   };
+
+  if (landmarkDetails.length === 0) {
+    return finish({
+      ...base,
+      status: "indeterminate",
+      statusReason:
+        lighting === "night"
+          ? `Sun is ${Math.abs(sunElevation)}° below the horizon and no landmark has a night template`
+          : "No landmarks configured",
+      visibilityScore: null,
+      fogLevel: null,
+    });
+  }
+
+  const visibilityScore = (visibleCount / landmarkDetails.length) * 100;
+  const visibilityRange = estimateVisibilityRange(landmarkDetails);
+  const fogCeiling = estimateFogCeiling(landmarkDetails);
+
+  return finish({
+    ...base,
+    ...(visibilityRange && { visibilityRange }),
+    ...(fogCeiling && { fogCeiling }),
+    status: "ok",
+    visibilityScore: Math.round(visibilityScore),
+    fogLevel: getFogLevel(visibilityScore),
+  });
 }
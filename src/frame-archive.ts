@@ -0,0 +1,176 @@
+import sharp from "sharp";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { LandmarkTemplate, PixelOffset, VisibilityResult } from "./types.js";
+
+export const ARCHIVE_DIR = path.resolve(import.meta.dirname, "..", "archive");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RUN_KEY = /^(\d{4})-(\d{2})-(\d{2})T(\d{2})(\d{2})(\d{2})Z$/;
+
+// How much of the archive to keep; either limit may be left out
+export interface ArchiveRetention {
+  maxAgeDays?: number;
+  maxRunsPerLocation?: number;
+}
+
+// One archived run: <archive>/<location>/<key>/
+export interface ArchivedRun {
+  location: string;
+  key: string;
+  timestamp: string;
+  dir: string;
+}
+
+// A landmark that was compared: the template and threshold it was held
+// to for the frame's lighting, and the offset it matched at
+export interface ComparedLandmark {
+  landmark: LandmarkTemplate;
+  templatePath: string; // Absolute
+  threshold: number;
+  offset?: PixelOffset;
+}
+
+export interface ArchiveEntry {
+  frame: Buffer;
+  landmarks: ComparedLandmark[];
+  reading: VisibilityResult;
+}
+
+/**
+ * Directory name for a run captured at the given time, e.g.
+ * "2026-06-21T200000Z". Sorts chronologically and is safe on every
+ * filesystem, unlike a raw ISO timestamp.
+ */
+export function toRunKey(timestamp: string): string {
+  return new Date(timestamp).toISOString().replace(/:|\.\d{3}/g, "");
+}
+
+/**
+ * Parse a run directory name back into an ISO timestamp; null for
+ * anything that isn't a run.
+ */
+export function parseRunKey(key: string): string | null {
+  const match = RUN_KEY.exec(key);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}.000Z`;
+}
+
+/**
+ * Where a landmark was compared in a frame: its region moved by the
+ * matched offset and kept inside the frame.
+ */
+export function landmarkCropBox(
+  landmark: LandmarkTemplate,
+  offset: PixelOffset | undefined,
+  frameWidth: number,
+  frameHeight: number
+): { left: number; top: number; width: number; height: number } {
+  const { x, y, width, height } = landmark.region;
+  return {
+    left: Math.min(Math.max(0, x + (offset?.x ?? 0)), frameWidth - width),
+    top: Math.min(Math.max(0, y + (offset?.y ?? 0)), frameHeight - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Save a run's raw frame, the crop of every landmark that was compared and
+ * the reading it produced, so the reading can be audited or relabeled
+ * later. Crops are taken where the landmark matched, so with drift search
+ * they show what was actually scored.
+ */
+export async function archiveRun(
+  archiveDir: string,
+  entry: ArchiveEntry
+): Promise<string> {
+  const { reading } = entry;
+  const runDir = path.join(archiveDir, reading.location, toRunKey(reading.timestamp));
+  await fs.mkdir(runDir, { recursive: true });
+
+  const { format, width = 0, height = 0 } = await sharp(entry.frame).metadata();
+  const extension = format === "jpeg" ? "jpg" : (format ?? "bin");
+  await fs.writeFile(path.join(runDir, `frame.${extension}`), entry.frame);
+
+  for (const { landmark, offset } of entry.landmarks) {
+    await sharp(entry.frame)
+      .extract(landmarkCropBox(landmark, offset, width, height))
+      .png()
+      .toFile(path.join(runDir, `${landmark.name}.png`));
+  }
+
+  await fs.writeFile(
+    path.join(runDir, "reading.json"),
+    JSON.stringify(reading, null, 2) + "\n"
+  );
+  return runDir;
+}
+
+/**
+ * List every archived run, oldest first within each location.
+ */
+export async function listArchivedRuns(archiveDir: string): Promise<ArchivedRun[]> {
+  const runs: ArchivedRun[] = [];
+  let locations: string[];
+  try {
+    locations = await fs.readdir(archiveDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  for (const location of locations.sort()) {
+    const locationDir = path.join(archiveDir, location);
+    if (!(await fs.stat(locationDir)).isDirectory()) continue;
+    for (const key of (await fs.readdir(locationDir)).sort()) {
+      const timestamp = parseRunKey(key);
+      if (timestamp) {
+        runs.push({ location, key, timestamp, dir: path.join(locationDir, key) });
+      }
+    }
+  }
+  return runs;
+}
+
+/**
+ * Delete archived runs older than the age limit, and beyond that the
+ * oldest runs of any location holding more than the per-location limit.
+ * Returns the runs that were deleted.
+ */
+export async function pruneArchive(
+  archiveDir: string,
+  retention: ArchiveRetention,
+  now: Date = new Date()
+): Promise<ArchivedRun[]> {
+  const runs = await listArchivedRuns(archiveDir);
+  const cutoff =
+    retention.maxAgeDays === undefined
+      ? -Infinity
+      : now.getTime() - retention.maxAgeDays * DAY_MS;
+
+  const expired: ArchivedRun[] = [];
+  const byLocation = new Map<string, ArchivedRun[]>();
+  for (const run of runs) {
+    if (new Date(run.timestamp).getTime() < cutoff) {
+      expired.push(run);
+      continue;
+    }
+    const kept = byLocation.get(run.location) ?? [];
+    kept.push(run);
+    byLocation.set(run.location, kept);
+  }
+
+  if (retention.maxRunsPerLocation !== undefined) {
+    for (const kept of byLocation.values()) {
+      const excess = kept.length - retention.maxRunsPerLocation;
+      if (excess > 0) expired.push(...kept.slice(0, excess));
+    }
+  }
+
+  for (const run of expired) {
+    await fs.rm(run.dir, { recursive: true, force: true });
+  }
+  return expired;
+}
@@ -0,0 +1,131 @@
+import sharp from "sharp";
+import { createHash } from "node:crypto";
+import type { FrameQuality } from "./types.js";
+
+// A frame this dark is a dead stream, not a dark night (city lights are brighter)
+const MIN_BRIGHTNESS = 3;
+// Below this spread the frame is a solid slate or a covered lens
+const MIN_CONTRAST = 2;
+// Share of block boundaries showing hard edges beyond what the image explains
+const MAX_BLOCKINESS = 0.25;
+// Fingerprint size: small enough to ignore re-encoding, large enough
+// that sensor noise makes two live frames differ
+const HASH_WIDTH = 64;
+const HASH_HEIGHT = 36;
+
+export interface FrameQualityOptions {
+  expectedResolution?: { width: number; height: number } | null;
+  previousHash?: string;
+}
+
+/**
+ * Measure a webcam frame and decide whether it is fit for fog analysis.
+ * Rejects black frames, featureless slates, frozen streams (same
+ * fingerprint as the previous run), unexpected resolutions and heavily
+ * block-compressed keyframes — all of which would otherwise read as fog.
+ */
+export async function assessFrameQuality(
+  frame: Buffer,
+  options: FrameQualityOptions = {}
+): Promise<{ quality: FrameQuality; rejection?: string }> {
+  const { data, info } = await sharp(frame)
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const channels = info.channels;
+  const pixelCount = info.width * info.height;
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < data.length; i += channels) {
+    sum += data[i];
+    sumSquares += data[i] * data[i];
+  }
+  const brightness = sum / pixelCount;
+  const contrast = Math.sqrt(Math.max(0, sumSquares / pixelCount - brightness ** 2));
+
+  const fingerprint = await sharp(frame)
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  const quality: FrameQuality = {
+    width: info.width,
+    height: info.height,
+    brightness: Math.round(brightness * 10) / 10,
+    contrast: Math.round(contrast * 10) / 10,
+    blockiness: Math.round(measureBlockiness(data, info.width, info.height, channels) * 100) / 100,
+    hash: createHash("sha256").update(fingerprint).digest("hex").slice(0, 16),
+  };
+
+  return { quality, rejection: findRejection(quality, options) };
+}
+
+function findRejection(
+  quality: FrameQuality,
+  options: FrameQualityOptions
+): string | undefined {
+  const expected = options.expectedResolution;
+  if (expected && (quality.width !== expected.width || quality.height !== expected.height)) {
+    return `unexpected resolution ${quality.width}x${quality.height} (expected ${expected.width}x${expected.height})`;
+  }
+  if (quality.brightness < MIN_BRIGHTNESS) {
+    return `black frame (mean brightness ${quality.brightness})`;
+  }
+  if (quality.contrast < MIN_CONTRAST) {
+    return `featureless frame (contrast ${quality.contrast}), likely an offline slate`;
+  }
+  if (options.previousHash && quality.hash === options.previousHash) {
+    return "frozen stream (identical to the previous frame)";
+  }
+  if (quality.blockiness > MAX_BLOCKINESS) {
+    return `heavily compressed frame (blockiness ${quality.blockiness})`;
+  }
+  return undefined;
+}
+
+/**
+ * How much more often a hard, isolated step (flat on both sides) lands on
+ * an 8-pixel block boundary than in the middle of a block. Natural edges
+ * fall anywhere, so clean frames score about 0; a keyframe starved of
+ * bitrate is a mosaic of flat blocks and scores well above.
+ */
+function measureBlockiness(
+  data: Buffer,
+  width: number,
+  height: number,
+  channels: number
+): number {
+  let boundaryHits = 0, boundaryTotal = 0;
+  let middleHits = 0, middleTotal = 0;
+  const at = (x: number, y: number) => data[(y * width + x) * channels];
+
+  const tally = (position: number, a: number, b: number, c: number, d: number) => {
+    const phase = position % 8;
+    if (phase !== 0 && phase !== 4) return;
+    const step = Math.abs(c - b);
+    const isolated = step >= 2 && step > 2 * Math.max(Math.abs(b - a), Math.abs(d - c));
+    if (phase === 0) {
+      boundaryTotal++;
+      if (isolated) boundaryHits++;
+    } else {
+      middleTotal++;
+      if (isolated) middleHits++;
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 2; x < width - 1; x++) {
+      tally(x, at(x - 2, y), at(x - 1, y), at(x, y), at(x + 1, y));
+    }
+  }
+  for (let y = 2; y < height - 1; y++) {
+    for (let x = 0; x < width; x++) {
+      tally(y, at(x, y - 2), at(x, y - 1), at(x, y), at(x, y + 1));
+    }
+  }
+
+  if (boundaryTotal === 0 || middleTotal === 0) return 0;
+  return Math.max(0, boundaryHits / boundaryTotal - middleHits / middleTotal);
+}
@@ -0,0 +1,317 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  HistoricalData,
+  HistoricalReading,
+  LocalHistoricalData,
+  LocalHourSlot,
+  RegionStatus,
+} from "./types.js";
+
+export const HISTORY_DIR = path.resolve(import.meta.dirname, "..", "api", "history");
+
+// Daily files with sub-hourly `readings`; unversioned files are hourly only
+export const HISTORY_VERSION = 2;
+export const DEFAULT_INTERVAL_MINUTES = 60;
+
+const DATE_FILE = /^\d{4}-\d{2}-\d{2}$/;
+const HOUR_MS = 60 * 60 * 1000;
+const TIME_ZONE = "America/Los_Angeles";
+
+// Building a formatter is far slower than using one, and climatology and
+// prediction read the Pacific time of every historical reading
+const pacificFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "numeric",
+  hourCycle: "h23",
+  timeZoneName: "longOffset",
+});
+
+/**
+ * Date, hour and UTC offset of an instant in San Francisco.
+ */
+function pacificTime(date: Date): { date: string; hour: number; utcOffset: string } {
+  const parts = pacificFormat.formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    hour: Number(part("hour")),
+    // "GMT-07:00" -> "-07:00"
+    utcOffset: part("timeZoneName").replace("GMT", "") || "+00:00",
+  };
+}
+
+/**
+ * Month and hour of day in San Francisco, where fog burns off on local
+ * solar time rather than UTC.
+ */
+export function pacificMonthAndHour(date: Date): { month: number; hour: number } {
+  const { date: day, hour } = pacificTime(date);
+  return { month: Number(day.slice(5, 7)), hour };
+}
+
+/**
+ * The Pacific-time calendar date (YYYY-MM-DD) of a timestamp.
+ */
+export function pacificDate(timestamp: string): string {
+  return pacificTime(new Date(timestamp)).date;
+}
+
+/**
+ * Start of each hour of a Pacific-time day, in order. A day is 24 hours,
+ * except 23 when DST starts (2am is skipped) and 25 when it ends (1am
+ * repeats). Offsets are whole hours, so every local hour is a UTC hour.
+ */
+export function localDayHours(date: string): Date[] {
+  // The day falls between 07:00 UTC on its date and 08:00 UTC the next
+  const first = Date.parse(`${date}T00:00:00.000Z`);
+  const hours: Date[] = [];
+  for (let time = first; time < first + 48 * HOUR_MS; time += HOUR_MS) {
+    if (pacificTime(new Date(time)).date === date) hours.push(new Date(time));
+  }
+  return hours;
+}
+
+/**
+ * Check a history interval: whole minutes dividing the hour, so every slot
+ * falls inside one hour for the hourly rollup.
+ */
+export function checkHistoryInterval(minutes: number): number {
+  if (!Number.isInteger(minutes) || minutes <= 0 || 60 % minutes !== 0) {
+    throw new Error(`Invalid history interval ${minutes}; expected minutes dividing 60, e.g. 10 or 15`);
+  }
+  return minutes;
+}
+
+/**
+ * The readings in a daily file at their own resolution: every slot of a
+ * version 2 file, or the hours of an older hourly one.
+ */
+function dailyReadings(data: HistoricalData): {
+  intervalMinutes: number;
+  readings: (HistoricalReading | null)[];
+} {
+  if (data.version === undefined) {
+    return { intervalMinutes: 60, readings: data.hours };
+  }
+  if (data.version !== HISTORY_VERSION) {
+    throw new Error(`Unsupported history file version ${data.version}`);
+  }
+  return { intervalMinutes: data.intervalMinutes!, readings: data.readings! };
+}
+
+// Slot of a reading in its UTC day's file
+function slotIndex(timestamp: string, intervalMinutes: number): number {
+  const time = new Date(timestamp);
+  return Math.floor((time.getUTCHours() * 60 + time.getUTCMinutes()) / intervalMinutes);
+}
+
+async function readDailyFile(historyDir: string, dateString: string): Promise<HistoricalData | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(historyDir, dateString), "utf-8"));
+  } catch {
+    // No readings that day
+    return null;
+  }
+}
+
+/**
+ * Condense one run's region readings into a history entry.
+ */
+export function toHistoricalReading(regions: RegionStatus[]): HistoricalReading {
+  const reading: HistoricalReading = {
+    timestamp: regions[0]?.timestamp || new Date().toISOString(),
+    regions: {},
+  };
+
+  for (const regionStatus of regions) {
+    reading.regions[regionStatus.region] = {
+      status: regionStatus.status,
+      ...(regionStatus.statusReason && { statusReason: regionStatus.statusReason }),
+      fogLevel: regionStatus.fogLevel,
+      visibilityScore: regionStatus.visibilityScore,
+      landmarksVisible: regionStatus.landmarksVisible,
+      totalLandmarks: regionStatus.totalLandmarks,
+      ...(regionStatus.visibilityRange && {
+        visibilityRange: regionStatus.visibilityRange,
+      }),
+      ...(regionStatus.fogCeiling && { fogCeiling: regionStatus.fogCeiling }),
+    };
+  }
+  return reading;
+}
+
+/**
+ * Store readings in their daily files (api/history/YYYY-MM-DD, UTC), each
+ * at its `intervalMinutes` slot. A reading replaces the slot's entries for
+ * the regions it covers and keeps the rest. Other slots of the day are
+ * kept, and `hours` is rebuilt as the latest reading
+ * in each hour for readers of the hourly format. A file already recorded
+ * at a finer interval keeps it, so data is never coarsened; older hourly
+ * files are upgraded. Returns the dates whose files were written.
+ */
+export async function writeHistoricalReadings(
+  historyDir: string,
+  readings: HistoricalReading[],
+  intervalMinutes = DEFAULT_INTERVAL_MINUTES
+): Promise<string[]> {
+  checkHistoryInterval(intervalMinutes);
+  await fs.mkdir(historyDir, { recursive: true });
+
+  const byDate = new Map<string, HistoricalReading[]>();
+  for (const reading of readings) {
+    const dateString = new Date(reading.timestamp).toISOString().split("T")[0];
+    const group = byDate.get(dateString) ?? [];
+    group.push(reading);
+    byDate.set(dateString, group);
+  }
+
+  for (const [dateString, group] of byDate) {
+    const existing = await readDailyFile(historyDir, dateString);
+    const previous = existing && dailyReadings(existing);
+    const interval = Math.min(intervalMinutes, previous?.intervalMinutes ?? intervalMinutes);
+
+    // Re-slot what the file held (at a finer interval, if it changed), then the new readings
+    const slots: (HistoricalReading | null)[] = Array((24 * 60) / interval).fill(null);
+    const kept = (previous?.readings ?? [])
+      .filter((r): r is HistoricalReading => r !== null)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    for (const reading of [...kept, ...group]) {
+      // Regions the new reading doesn't cover (e.g. a one-location backfill) keep their entry
+      const index = slotIndex(reading.timestamp, interval);
+      slots[index] = { ...reading, regions: { ...slots[index]?.regions, ...reading.regions } };
+    }
+
+    const hours: (HistoricalReading | null)[] = Array(24).fill(null);
+    for (const reading of slots) {
+      if (!reading) continue;
+      const hour = new Date(reading.timestamp).getUTCHours();
+      if (!hours[hour] || reading.timestamp > hours[hour].timestamp) hours[hour] = reading;
+    }
+
+    const dailyData: HistoricalData = {
+      version: HISTORY_VERSION,
+      intervalMinutes: interval,
+      readings: slots,
+      hours,
+    };
+    await fs.writeFile(path.join(historyDir, dateString), JSON.stringify(dailyData, null, 2) + "\n");
+  }
+  return Array.from(byDate.keys()).sort();
+}
+
+/**
+ * Rebuild api/history/local/YYYY-MM-DD for the Pacific-time days the
+ * readings fall on, from the UTC daily files already written. Each day
+ * lists its local hours with their readings, so the site can draw a San
+ * Francisco day from one file without knowing the DST rules. Returns the
+ * local dates written.
+ */
+export async function writeLocalHistory(
+  historyDir: string,
+  readings: HistoricalReading[]
+): Promise<string[]> {
+  const localDir = path.join(historyDir, "local");
+  await fs.mkdir(localDir, { recursive: true });
+
+  const dailyFiles = new Map<string, HistoricalData | null>();
+  const dates = [...new Set(readings.map((r) => pacificDate(r.timestamp)))].sort();
+  for (const date of dates) {
+    const hours: LocalHourSlot[] = [];
+    for (const start of localDayHours(date)) {
+      const utcDate = start.toISOString().split("T")[0];
+      if (!dailyFiles.has(utcDate)) {
+        dailyFiles.set(utcDate, await readDailyFile(historyDir, utcDate));
+      }
+      const { hour, utcOffset } = pacificTime(start);
+      hours.push({
+        hour,
+        start: start.toISOString(),
+        utcOffset,
+        reading: dailyFiles.get(utcDate)?.hours[start.getUTCHours()] ?? null,
+      });
+    }
+
+    const localData: LocalHistoricalData = { date, timeZone: TIME_ZONE, hours };
+    await fs.writeFile(path.join(localDir, date), JSON.stringify(localData, null, 2) + "\n");
+  }
+  return dates;
+}
+
+/**
+ * Read api/history/local/YYYY-MM-DD, or null if that day has no view yet.
+ */
+export async function readLocalHistory(
+  historyDir: string,
+  date: string
+): Promise<LocalHistoricalData | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(historyDir, "local", date), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Update the historical range metadata showing available data.
+ */
+export async function updateHistoricalRange(historyDir: string): Promise<void> {
+  try {
+    const files = await fs.readdir(historyDir);
+    const dateFiles = files.filter((f) => DATE_FILE.test(f)).sort();
+
+    if (dateFiles.length === 0) {
+      console.log("  No historical data files found");
+      return;
+    }
+
+    const startDate = dateFiles[0];
+    const endDate = dateFiles[dateFiles.length - 1];
+    const totalDays = dateFiles.length;
+
+    const rangeData = {
+      startDate,
+      endDate,
+      totalDays,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    await fs.writeFile(
+      path.join(historyDir, "index"),
+      JSON.stringify(rangeData, null, 2) + "\n"
+    );
+    console.log(`  Wrote api/history (${startDate} to ${endDate})`);
+  } catch (error) {
+    console.error("  Failed to update historical range:", error);
+  }
+}
+
+/**
+ * Read every daily file in api/history, oldest reading first. Sub-hourly
+ * readings are all returned unless `hourly` asks for the hourly rollup.
+ */
+export async function loadHistory(
+  historyDir: string,
+  { hourly = false }: { hourly?: boolean } = {}
+): Promise<HistoricalReading[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(historyDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const readings: HistoricalReading[] = [];
+  for (const file of files.filter((f) => DATE_FILE.test(f)).sort()) {
+    const data: HistoricalData = JSON.parse(
+      await fs.readFile(path.join(historyDir, file), "utf-8")
+    );
+    const day = hourly ? data.hours : dailyReadings(data).readings;
+    readings.push(...day.filter((r): r is HistoricalReading => r !== null));
+  }
+  return readings.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
@@ -1,4 +1,8 @@
 import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { fileURLToPath } from "node:url";
 import { promisify } from "node:util";
 import type { WebcamSource } from "./types.js";
 
@@ -9,50 +13,315 @@ const FFMPEG_PATH =
   process.env.FFMPEG_PATH ||
   (process.platform === "darwin" ? "/opt/homebrew/bin/ffmpeg" : "ffmpeg");
 
+// Relative file sources are resolved from here, like template paths
+const PROJECT_ROOT = path.resolve(import.meta.dirname, "..");
+
+// Frames a directory source picks from
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp"]);
+
+// Give up on an MJPEG stream that hasn't produced a frame within this much data
+const MAX_MJPEG_BYTES = 10 * 1024 * 1024;
+const JPEG_START = Buffer.from([0xff, 0xd8, 0xff]);
+const JPEG_END = Buffer.from([0xff, 0xd9]);
+
+export const SOURCE_TYPES: WebcamSource["type"][] = ["image", "hls", "mjpeg", "file"];
+
+/**
+ * Guess a source type from its URL: anything that isn't http(s) is a local
+ * file, .m3u8 is HLS and .mjpg/.mjpeg (as Axis-style cameras serve) is MJPEG.
+ */
+export function guessSourceType(url: string): WebcamSource["type"] {
+  if (!/^https?:\/\//i.test(url)) return "file";
+  const { pathname } = new URL(url);
+  if (pathname.endsWith(".m3u8")) return "hls";
+  if (/\.mjpe?g$/i.test(pathname)) return "mjpeg";
+  return "image";
+}
+
+export interface FetchOptions {
+  timeoutMs?: number; // Per attempt, defaults to 30s
+  retries?: number; // Attempts after the first, defaults to 2
+  backoffMs?: number; // Base delay before a retry, doubled each time; defaults to 1s
+  maxBackoffMs?: number; // Cap on the doubled delay, defaults to 10s
+}
+
+const DEFAULT_FETCH_OPTIONS: Required<FetchOptions> = {
+  timeoutMs: 30_000,
+  retries: 2,
+  backoffMs: 1_000,
+  maxBackoffMs: 10_000,
+};
+
+/**
+ * Base class for fetch failures. `retryable` is false when trying again
+ * can't help (e.g. a 404); `attempts` is set once retries are exhausted.
+ */
+export class ImageFetchError extends Error {
+  attempts = 1;
+
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly retryable = true,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpStatusError extends ImageFetchError {
+  constructor(
+    url: string,
+    readonly status: number,
+    statusText: string
+  ) {
+    // Client errors won't fix themselves, apart from timeouts and rate limits
+    super(
+      `Failed to fetch image: ${status} ${statusText}`,
+      url,
+      status >= 500 || status === 408 || status === 429
+    );
+  }
+}
+
+// ffmpeg couldn't be run or exited with an error
+export class FfmpegError extends ImageFetchError {
+  constructor(
+    url: string,
+    message: string,
+    readonly stderr = "",
+    retryable = true,
+    options?: ErrorOptions
+  ) {
+    super(`ffmpeg failed for ${url}: ${message}`, url, retryable, options);
+  }
+}
+
+// The request succeeded but carried no image data
+export class EmptyImageError extends ImageFetchError {
+  constructor(url: string, what: string) {
+    super(`${what} returned empty output for ${url}`, url);
+  }
+}
+
+export class FetchTimeoutError extends ImageFetchError {
+  constructor(
+    url: string,
+    readonly timeoutMs: number
+  ) {
+    super(`Timed out after ${timeoutMs}ms fetching ${url}`, url);
+  }
+}
+
 /**
- * Fetch a webcam image as a Buffer, supporting both direct image URLs
- * and HLS video streams (via ffmpeg snapshot).
+ * Fetch a webcam image as a Buffer, supporting direct image URLs, HLS video
+ * streams (via ffmpeg snapshot), MJPEG streams and local files. Each attempt
+ * is limited to `timeoutMs`; retryable failures are retried with jittered
+ * exponential backoff before the last error is thrown.
  */
-export async function fetchWebcamImage(source: WebcamSource): Promise<Buffer> {
-  if (source.type === "image") {
-    return fetchDirectImage(source.url);
+export async function fetchWebcamImage(
+  source: WebcamSource,
+  options: FetchOptions = {}
+): Promise<Buffer> {
+  const settings = { ...DEFAULT_FETCH_OPTIONS, ...options };
+  const fetchers: Record<WebcamSource["type"], (url: string, timeoutMs: number) => Promise<Buffer>> = {
+    image: fetchDirectImage,
+    hls: fetchHlsSnapshot,
+    mjpeg: fetchMjpegFrame,
+    file: readLatestFrame,
+  };
+  const attempt = () => fetchers[source.type](source.url, settings.timeoutMs);
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const fetchError =
+        error instanceof ImageFetchError
+          ? error
+          : new ImageFetchError(
+              `Failed to fetch ${source.url}: ${(error as Error).message}`,
+              source.url,
+              true,
+              { cause: error }
+            );
+
+      if (!fetchError.retryable || i >= settings.retries) {
+        fetchError.attempts = i + 1;
+        if (i > 0) fetchError.message += ` (after ${i + 1} attempts)`;
+        throw fetchError;
+      }
+
+      // "Full jitter": anywhere up to the doubled delay, so cameras on one CDN don't retry in step
+      const ceiling = Math.min(settings.maxBackoffMs, settings.backoffMs * 2 ** i);
+      await sleep(Math.random() * ceiling);
+    }
   }
-  return fetchHlsSnapshot(source.url);
 }
 
 /**
  * Fetch a direct image URL (JPG/PNG) via HTTP.
  */
-async function fetchDirectImage(url: string): Promise<Buffer> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+async function fetchDirectImage(url: string, timeoutMs: number): Promise<Buffer> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new HttpStatusError(url, response.status, response.statusText);
+    }
+    const image = Buffer.from(await response.arrayBuffer());
+    if (image.length === 0) throw new EmptyImageError(url, "Server");
+    return image;
+  } catch (error) {
+    throw toFetchError(error, url, timeoutMs);
+  }
+}
+
+/**
+ * Map a rejection from fetch() or its body stream to an ImageFetchError.
+ */
+function toFetchError(error: unknown, url: string, timeoutMs: number): ImageFetchError {
+  if (error instanceof ImageFetchError) return error;
+  if ((error as Error).name === "TimeoutError") return new FetchTimeoutError(url, timeoutMs);
+  // fetch() rejects with a bare "fetch failed"; the cause names the network error
+  const cause = (error as Error).cause as Error | undefined;
+  return new ImageFetchError(
+    `Failed to fetch image: ${cause?.message ?? (error as Error).message}`,
+    url,
+    true,
+    { cause: error }
+  );
+}
+
+/**
+ * Read the first complete JPEG from a multipart MJPEG stream, then close the
+ * connection. Servers that answer with a single JPEG work too.
+ */
+async function fetchMjpegFrame(url: string, timeoutMs: number): Promise<Buffer> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new HttpStatusError(url, response.status, response.statusText);
+    }
+    if (!response.body) throw new EmptyImageError(url, "Stream");
+
+    const reader = response.body.getReader();
+    let received = Buffer.alloc(0);
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received = Buffer.concat([received, value]);
+        const frame = findJpegFrame(received);
+        if (frame) return frame;
+        if (received.length > MAX_MJPEG_BYTES) {
+          throw new ImageFetchError(`No JPEG frame in the first 10 MB of ${url}`, url, false);
+        }
+      }
+    } finally {
+      // The stream never ends by itself; stop downloading once we're done with it
+      reader.cancel().catch(() => {});
+    }
+    throw new EmptyImageError(url, "Stream");
+  } catch (error) {
+    throw toFetchError(error, url, timeoutMs);
+  }
+}
+
+/**
+ * Find the first complete JPEG in the bytes of an MJPEG stream. The part's
+ * Content-Length is trusted when given, since a frame with an embedded
+ * thumbnail contains an end-of-image marker before its own.
+ */
+function findJpegFrame(data: Buffer): Buffer | undefined {
+  const start = data.indexOf(JPEG_START);
+  if (start === -1) return undefined;
+
+  // Everything before the first frame is the boundary and that part's headers
+  const length = /content-length:\s*(\d+)/i.exec(data.subarray(0, start).toString("latin1"));
+  if (length) {
+    const end = start + Number(length[1]);
+    return data.length >= end ? data.subarray(start, end) : undefined;
+  }
+
+  const end = data.indexOf(JPEG_END, start + JPEG_START.length);
+  return end === -1 ? undefined : data.subarray(start, end + JPEG_END.length);
+}
+
+/**
+ * Read a local image, or the newest image in a directory of frames (by
+ * modification time, then name), for offline testing and replays.
+ */
+async function readLatestFrame(url: string): Promise<Buffer> {
+  const target = url.startsWith("file:") ? fileURLToPath(url) : path.resolve(PROJECT_ROOT, url);
+  try {
+    let file = target;
+    if ((await fs.stat(target)).isDirectory()) {
+      const frames = await Promise.all(
+        (await fs.readdir(target, { withFileTypes: true }))
+          .filter((e) => e.isFile() && IMAGE_EXTENSIONS.has(path.extname(e.name).toLowerCase()))
+          .map(async (e) => {
+            const framePath = path.join(target, e.name);
+            return { framePath, mtimeMs: (await fs.stat(framePath)).mtimeMs };
+          })
+      );
+      const newest = frames
+        .sort((a, b) => a.mtimeMs - b.mtimeMs || a.framePath.localeCompare(b.framePath))
+        .at(-1);
+      // A replay may not have written its first frame yet, so this is retryable
+      if (!newest) throw new ImageFetchError(`No images in ${target}`, url);
+      file = newest.framePath;
+    }
+
+    const image = await fs.readFile(file);
+    if (image.length === 0) throw new EmptyImageError(url, "File");
+    return image;
+  } catch (error) {
+    if (error instanceof ImageFetchError) throw error;
+    // A missing or unreadable path won't fix itself between retries
+    throw new ImageFetchError(
+      `Failed to read ${target}: ${(error as Error).message}`,
+      url,
+      false,
+      { cause: error }
+    );
   }
-  return Buffer.from(await response.arrayBuffer());
 }
 
 /**
  * Grab a single frame from an HLS stream using ffmpeg.
  * Outputs a PNG to stdout via pipe, avoiding temp files.
  */
-async function fetchHlsSnapshot(url: string): Promise<Buffer> {
-  const { stdout } = await execFileAsync(
-    FFMPEG_PATH,
-    [
-      "-i", url,
-      "-frames:v", "1",
-      "-f", "image2pipe",
-      "-vcodec", "png",
-      "pipe:1",
-    ],
-    {
-      encoding: "buffer",
-      maxBuffer: 10 * 1024 * 1024, // 10 MB
-      timeout: 30_000,
-    }
-  );
+async function fetchHlsSnapshot(url: string, timeoutMs: number): Promise<Buffer> {
+  let stdout: Buffer;
+  try {
+    ({ stdout } = await execFileAsync(
+      FFMPEG_PATH,
+      [
+        "-i", url,
+        "-frames:v", "1",
+        "-f", "image2pipe",
+        "-vcodec", "png",
+        "pipe:1",
+      ],
+      {
+        encoding: "buffer",
+        maxBuffer: 10 * 1024 * 1024, // 10 MB
+        timeout: timeoutMs,
+      }
+    ));
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & { killed?: boolean; stderr?: Buffer };
+    if (failure.killed) throw new FetchTimeoutError(url, timeoutMs);
+    // ffmpeg's last stderr line says why (e.g. "Server returned 403 Forbidden")
+    const stderr = failure.stderr?.toString().trim() ?? "";
+    const reason = stderr.split("\n").pop() || failure.message;
+    // A missing ffmpeg binary won't appear between retries
+    throw new FfmpegError(url, reason, stderr, failure.code !== "ENOENT", { cause: error });
+  }
   if (!stdout || stdout.length === 0) {
-    throw new Error(`ffmpeg returned empty output for ${url}`);
+    throw new EmptyImageError(url, "ffmpeg");
   }
   return stdout;
 }
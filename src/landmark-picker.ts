@@ -0,0 +1,254 @@
+import sharp from "sharp";
+import fs from "node:fs/promises";
+import http from "node:http";
+import path from "node:path";
+import { findCameraById, loadCameraCatalog } from "./cameras.js";
+import { ConfigValidationError, type ConfigIssue } from "./config-validation.js";
+import { fetchWebcamImage, guessSourceType, SOURCE_TYPES } from "./image-fetcher.js";
+import {
+  createTemplateWithCoordinates,
+  locationConfigExists,
+  type TemplateSetup,
+} from "./setup-templates.js";
+import type { WebcamSource } from "./types.js";
+
+const PICKER_PAGE = path.join(import.meta.dirname, "landmark-picker.html");
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+// Location, region and landmark names end up in file paths
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export interface SaveRequest {
+  location: string;
+  region: string;
+  camera?: string; // ID in data/cameras.json
+  source?: { type?: WebcamSource["type"]; url: string }; // Off-catalog camera; type is guessed if left out
+  landmarks: TemplateSetup[];
+  force?: boolean;
+}
+
+export interface SaveResponse {
+  configPath: string; // Relative to the project root
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly issues?: ConfigIssue[] // Sent along for the page to list
+  ) {
+    super(message);
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_UPLOAD_BYTES) throw new HttpError(413, "Upload is too large");
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Whether a request came from the picker's own page (or from a tool that
+ * sends no Origin, like curl) rather than from another site open in the
+ * browser.
+ */
+function isSameOrigin(req: http.IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a source from the page's URL field, guessing the type from the URL
+ * when the page leaves it on "auto".
+ */
+function toSource(url: string, type: string | null | undefined): WebcamSource {
+  if (!type) return { type: guessSourceType(url), url };
+  if (!SOURCE_TYPES.includes(type as WebcamSource["type"])) {
+    throw new HttpError(400, `Unknown source type "${type}"; expected ${SOURCE_TYPES.join(", ")}`);
+  }
+  return { type: type as WebcamSource["type"], url };
+}
+
+/**
+ * Check a save request before anything is written, with messages the page
+ * can show next to the form.
+ */
+function checkSaveRequest(request: SaveRequest): void {
+  for (const [field, value] of [
+    ["location", request.location],
+    ["region", request.region],
+  ] as const) {
+    if (!value || !NAME_PATTERN.test(value)) {
+      throw new HttpError(400, `${field} must be lowercase letters, digits and dashes`);
+    }
+  }
+  if (!request.camera && !request.source) {
+    throw new HttpError(400, "Choose a camera or enter a source URL");
+  }
+  if (!Array.isArray(request.landmarks) || request.landmarks.length === 0) {
+    throw new HttpError(400, "Draw at least one landmark");
+  }
+
+  const seen = new Set<string>();
+  for (const landmark of request.landmarks) {
+    if (!NAME_PATTERN.test(landmark.name ?? "")) {
+      throw new HttpError(
+        400,
+        `Landmark name "${landmark.name ?? ""}" must be lowercase letters, digits and dashes`
+      );
+    }
+    if (seen.has(landmark.name)) {
+      throw new HttpError(400, `Landmark "${landmark.name}" is named twice`);
+    }
+    seen.add(landmark.name);
+  }
+}
+
+/**
+ * A local server for drawing landmark boxes over a frame. The page loads a
+ * live frame from a catalog camera or an uploaded file; saving crops the
+ * templates from that same frame through createTemplateWithCoordinates.
+ * `initialFrame` preloads a frame (e.g. from --snapshot).
+ */
+export function createPickerServer(initialFrame?: Buffer): http.Server {
+  let frame = initialFrame;
+
+  // Normalize to PNG so the browser can draw any format sharp reads
+  const setFrame = async (image: Buffer): Promise<Buffer> => {
+    const png = await sharp(image)
+      .png()
+      .toBuffer()
+      .catch(() => {
+        throw new HttpError(400, "Not a readable image");
+      });
+    frame = image;
+    return png;
+  };
+
+  const routes: Record<
+    string,
+    (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => Promise<void>
+  > = {
+    "GET /": async (_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(await fs.readFile(PICKER_PAGE));
+    },
+
+    "GET /api/cameras": async (_req, res) => {
+      sendJson(res, 200, await loadCameraCatalog());
+    },
+
+    // Current frame, or a fresh one from ?camera=<id> / ?url=<url>&type=<type>
+    "GET /api/frame": async (_req, res, url) => {
+      const cameraId = url.searchParams.get("camera");
+      const sourceUrl = url.searchParams.get("url");
+      let png: Buffer;
+      if (cameraId || sourceUrl) {
+        let source: WebcamSource;
+        if (cameraId) {
+          const camera = await findCameraById(cameraId);
+          if (!camera) throw new HttpError(404, `Camera "${cameraId}" is not in data/cameras.json`);
+          source = camera.source;
+        } else {
+          source = toSource(sourceUrl!, url.searchParams.get("type"));
+        }
+        const image = await fetchWebcamImage(source).catch((error: Error) => {
+          throw new HttpError(502, `Couldn't fetch a frame: ${error.message}`);
+        });
+        png = await setFrame(image);
+      } else if (frame) {
+        png = await sharp(frame).png().toBuffer();
+      } else {
+        throw new HttpError(404, "No frame loaded yet");
+      }
+      res.writeHead(200, { "Content-Type": "image/png", "Cache-Control": "no-store" });
+      res.end(png);
+    },
+
+    // Upload a saved frame from disk
+    "PUT /api/frame": async (req, res) => {
+      const png = await setFrame(await readBody(req));
+      res.writeHead(200, { "Content-Type": "image/png" });
+      res.end(png);
+    },
+
+    "POST /api/save": async (req, res) => {
+      // Other sites can POST text/plain here without a preflight; only the page sends JSON
+      if (!req.headers["content-type"]?.startsWith("application/json")) {
+        throw new HttpError(415, "Content-Type must be application/json");
+      }
+      if (!frame) throw new HttpError(409, "Load a frame before saving");
+
+      let request: SaveRequest;
+      try {
+        request = JSON.parse((await readBody(req)).toString("utf-8"));
+      } catch {
+        throw new HttpError(400, "Request body must be JSON");
+      }
+      checkSaveRequest(request);
+
+      if (request.camera && !(await findCameraById(request.camera))) {
+        throw new HttpError(400, `Camera "${request.camera}" is not in data/cameras.json`);
+      }
+      if (!request.force && (await locationConfigExists(request.location))) {
+        throw new HttpError(
+          409,
+          `data/locations/${request.location}.json already exists; tick "Overwrite" to replace it`
+        );
+      }
+
+      const camera = request.camera ?? toSource(request.source!.url, request.source!.type);
+      try {
+        await createTemplateWithCoordinates(
+          camera,
+          request.location,
+          request.region,
+          request.landmarks,
+          frame
+        );
+      } catch (error) {
+        // An invalid config is refused before anything is written
+        if (error instanceof ConfigValidationError) {
+          throw new HttpError(400, "Not saved; fix these first:", error.issues);
+        }
+        throw new HttpError(400, (error as Error).message);
+      }
+
+      const response: SaveResponse = {
+        configPath: path.join("data", "locations", `${request.location}.json`),
+      };
+      sendJson(res, 200, response);
+    },
+  };
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = routes[`${req.method} ${url.pathname}`];
+    try {
+      if (!route) throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+      if (req.method !== "GET" && !isSameOrigin(req)) {
+        throw new HttpError(403, "Requests must come from the picker page");
+      }
+      await route(req, res, url);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const issues = error instanceof HttpError ? error.issues : undefined;
+      sendJson(res, status, { error: (error as Error).message, ...(issues && { issues }) });
+    }
+  });
+}
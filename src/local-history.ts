@@ -0,0 +1,21 @@
+import { HISTORY_DIR, loadHistory, writeLocalHistory } from "./history.js";
+
+/**
+ * Rebuild every api/history/local/YYYY-MM-DD view from the UTC daily files,
+ * e.g. for history recorded before the local views existed. Hourly runs and
+ * backfills keep the views up to date after that.
+ */
+async function main(): Promise<void> {
+  const readings = await loadHistory(HISTORY_DIR);
+  const dates = await writeLocalHistory(HISTORY_DIR, readings);
+  if (dates.length === 0) {
+    console.log("No history to build local views from");
+    return;
+  }
+  console.log(`✓ Wrote api/history/local for ${dates.length} day(s) (${dates[0]} to ${dates.at(-1)})`);
+}
+
+main().catch((error) => {
+  console.error("Building local history failed:", error);
+  process.exit(1);
+});
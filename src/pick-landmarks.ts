@@ -0,0 +1,31 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createPickerServer } from "./landmark-picker.js";
+
+/**
+ * Serve the landmark picker on localhost. --snapshot preloads a saved frame.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "4173" },
+      snapshot: { type: "string" },
+    },
+  });
+
+  const frame = values.snapshot ? await fs.readFile(path.resolve(values.snapshot)) : undefined;
+  const server = createPickerServer(frame);
+  const port = Number(values.port);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", resolve);
+  });
+  console.log(`Landmark picker running at http://localhost:${port}/ (Ctrl+C to stop)`);
+}
+
+main().catch((error) => {
+  console.error("Picker failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,225 @@
+import { pacificMonthAndHour } from "./history.js";
+import type {
+  FogLevel,
+  HistoricalReading,
+  Prediction,
+  RegionStatus,
+} from "./types.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const HORIZON_HOURS = 24; // Fog that outlasts this counts as not clearing
+const MAX_GAP_HOURS = 2; // Longer gaps between readings break a clearing sample
+const HOUR_WINDOW = 1; // Match samples within this many local hours of now
+const MONTH_WINDOW = 1; // ...and within this many months
+const MIN_SAMPLES = 5;
+const FULL_CONFIDENCE_SAMPLES = 30;
+const TREND_HOURS = 3; // Readings this recent feed the current trend
+const TREND_WEIGHT = 0.3; // Share of the estimate taken from the trend
+const CLEAR_SCORE = 80; // getFogLevel's "clear" cutoff
+
+// How long fog took to clear after one historical foggy reading
+export interface ClearingSample {
+  timestamp: string;
+  month: number; // 1-12, Pacific time
+  hour: number; // 0-23, Pacific time
+  fogLevel: FogLevel;
+  hoursUntilClear: number | null; // null when it lasted past the horizon
+}
+
+// One region's usable reading, flattened out of a HistoricalReading
+interface RegionPoint {
+  time: number;
+  fogLevel: FogLevel;
+  visibilityScore: number;
+}
+
+function regionPoints(readings: HistoricalReading[], region: string): RegionPoint[] {
+  const points: RegionPoint[] = [];
+  for (const reading of readings) {
+    const entry = reading.regions[region];
+    // Readings from before status was tracked have no status but were usable
+    if (!entry || (entry.status && entry.status !== "ok")) continue;
+    if (entry.fogLevel === null || entry.visibilityScore === null) continue;
+    points.push({
+      time: new Date(reading.timestamp).getTime(),
+      fogLevel: entry.fogLevel,
+      visibilityScore: entry.visibilityScore,
+    });
+  }
+  return points;
+}
+
+/**
+ * Walk a region's history and record, for every foggy reading, how many
+ * hours passed until the first clear one. A gap in the readings before it
+ * clears makes the outcome unknown, so that reading is left out rather
+ * than guessed at; fog still there after the horizon is kept as a sample
+ * that didn't clear.
+ */
+export function extractClearingSamples(
+  readings: HistoricalReading[],
+  region: string
+): ClearingSample[] {
+  const points = regionPoints(readings, region);
+  const samples: ClearingSample[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const start = points[i];
+    if (start.fogLevel === "clear") continue;
+
+    let outcome: number | null | undefined;
+    for (let j = i + 1; j < points.length; j++) {
+      if (points[j].time - points[j - 1].time > MAX_GAP_HOURS * HOUR_MS) break;
+      const hours = (points[j].time - start.time) / HOUR_MS;
+      if (hours > HORIZON_HOURS) {
+        outcome = null;
+        break;
+      }
+      if (points[j].fogLevel === "clear") {
+        outcome = hours;
+        break;
+      }
+    }
+    if (outcome === undefined) continue;
+
+    const date = new Date(start.time);
+    samples.push({
+      timestamp: date.toISOString(),
+      ...pacificMonthAndHour(date),
+      fogLevel: start.fogLevel,
+      hoursUntilClear: outcome,
+    });
+  }
+  return samples;
+}
+
+const circularDistance = (a: number, b: number, period: number) => {
+  const d = Math.abs(a - b) % period;
+  return Math.min(d, period - d);
+};
+
+/**
+ * Visibility change per hour over the region's recent readings, by least
+ * squares. Null with fewer than two readings in the window.
+ */
+function recentTrend(points: RegionPoint[], now: RegionPoint): number | null {
+  const recent = points
+    .filter((p) => p.time < now.time && now.time - p.time <= TREND_HOURS * HOUR_MS)
+    .concat(now);
+  if (recent.length < 2) return null;
+
+  const xs = recent.map((p) => (p.time - now.time) / HOUR_MS);
+  const ys = recent.map((p) => p.visibilityScore);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  return variance === 0 ? null : covariance / variance;
+}
+
+/**
+ * Median of the clearing times, with fog that never cleared sorted last.
+ * Null when at least half the samples didn't clear within the horizon.
+ */
+function medianClearingHours(samples: ClearingSample[]): number | null {
+  const hours = samples
+    .map((s) => s.hoursUntilClear ?? Infinity)
+    .sort((a, b) => a - b);
+  const mid = Math.floor(hours.length / 2);
+  const median = hours.length % 2 === 1 ? hours[mid] : (hours[mid - 1] + hours[mid]) / 2;
+  return Number.isFinite(median) ? median : null;
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return "within the hour";
+  const rounded = Math.round(hours);
+  return `in about ${rounded} hour${rounded === 1 ? "" : "s"}`;
+}
+
+/**
+ * Estimate when a foggy region will clear. Past foggy readings in the same
+ * region, within an hour of the current Pacific time of day and a month of
+ * the current month, give the usual burn-off time. When visibility has been
+ * rising over the last few hours, extrapolating that trend to the clear
+ * cutoff is blended in. Confidence grows with the
+ * number of matching samples and how many of them cleared close to the
+ * estimate, and drops when the trend is heading the wrong way.
+ *
+ * Returns null for regions that are clear or have no usable reading.
+ * With too little matching history the prediction is still returned, with
+ * no clear time and zero confidence, so the sample count stays visible.
+ */
+export function predictClearing(
+  current: RegionStatus,
+  history: HistoricalReading[]
+): Prediction | null {
+  if (current.status !== "ok" || current.visibilityScore === null) return null;
+  if (current.fogLevel === null || current.fogLevel === "clear") return null;
+
+  const nowTime = new Date(current.timestamp).getTime();
+  const { month, hour } = pacificMonthAndHour(new Date(nowTime));
+  const earlier = history.filter((r) => new Date(r.timestamp).getTime() < nowTime);
+  const matched = extractClearingSamples(earlier, current.region).filter(
+    (s) =>
+      circularDistance(s.hour, hour, 24) <= HOUR_WINDOW &&
+      circularDistance(s.month, month, 12) <= MONTH_WINDOW
+  );
+
+  if (matched.length < MIN_SAMPLES) {
+    return {
+      estimatedClearTime: null,
+      hoursUntilClear: null,
+      confidence: 0,
+      basedOnSamples: matched.length,
+      message: `Not enough history to predict clearing (${matched.length} similar readings)`,
+    };
+  }
+
+  const sampleFactor = Math.min(1, matched.length / FULL_CONFIDENCE_SAMPLES);
+  const historical = medianClearingHours(matched);
+  if (historical === null) {
+    const persisted = matched.filter((s) => s.hoursUntilClear === null).length;
+    return {
+      estimatedClearTime: null,
+      hoursUntilClear: null,
+      confidence: Math.round((100 * sampleFactor * persisted) / matched.length),
+      basedOnSamples: matched.length,
+      message: `Fog usually lasts more than ${HORIZON_HOURS} hours at this time of day and year`,
+    };
+  }
+
+  const trend = recentTrend(regionPoints(earlier, current.region), {
+    time: nowTime,
+    fogLevel: current.fogLevel,
+    visibilityScore: current.visibilityScore,
+  });
+  let hoursUntilClear = historical;
+  if (trend !== null && trend > 0) {
+    const extrapolated = Math.min(
+      (CLEAR_SCORE - current.visibilityScore) / trend,
+      HORIZON_HOURS
+    );
+    hoursUntilClear = (1 - TREND_WEIGHT) * historical + TREND_WEIGHT * extrapolated;
+  }
+  hoursUntilClear = Math.round(hoursUntilClear * 10) / 10;
+
+  const nearEstimate = matched.filter(
+    (s) => s.hoursUntilClear !== null && Math.abs(s.hoursUntilClear - hoursUntilClear) <= 2
+  ).length;
+  const trendFactor = trend !== null && trend < 0 ? 0.75 : 1;
+  const confidence = Math.round(
+    100 * sampleFactor * (nearEstimate / matched.length) * trendFactor
+  );
+
+  return {
+    estimatedClearTime: new Date(nowTime + hoursUntilClear * HOUR_MS).toISOString(),
+    hoursUntilClear,
+    confidence,
+    basedOnSamples: matched.length,
+    message: `Expected to clear ${formatHours(hoursUntilClear)}`,
+  };
+}
@@ -0,0 +1,126 @@
+import { getFogLevel } from "./fog-detector.js";
+import { combineVisibilityRanges } from "./visibility-range.js";
+import { combineFogCeilings } from "./fog-ceiling.js";
+import type {
+  RegionLocationStatus,
+  RegionStatus,
+  VisibilityResult,
+} from "./types.js";
+
+/**
+ * Combine location results into one reading per region. The region's
+ * visibility score is the weighted mean of its usable ("ok") cameras, so a
+ * region stays readable when one of its cameras fails. With no usable
+ * camera the region is indeterminate if any camera was merely too dark,
+ * otherwise an error. Every contributing location is listed either way.
+ */
+export function aggregateRegions(results: VisibilityResult[]): RegionStatus[] {
+  const byRegion = new Map<string, VisibilityResult[]>();
+  for (const result of results) {
+    const group = byRegion.get(result.region) ?? [];
+    group.push(result);
+    byRegion.set(result.region, group);
+  }
+
+  return Array.from(byRegion.entries()).map(([region, group]) =>
+    aggregateRegion(region, group)
+  );
+}
+
+// Hourly checks, so a reading two runs old means something is wrong
+export const STALE_AFTER_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Flag each region whose reading is older than `maxAgeMs` as stale.
+ * Regions from the previous run that got no reading this time (every
+ * camera threw, or its configs were skipped) are carried over, flagged,
+ * rather than silently dropping out of the API.
+ */
+export function markStaleRegions(
+  current: RegionStatus[],
+  previous: RegionStatus[],
+  now: Date,
+  maxAgeMs: number = STALE_AFTER_MS
+): RegionStatus[] {
+  const seen = new Set(current.map((r) => r.region));
+  const carried = previous.filter((r) => !seen.has(r.region));
+  return [...current, ...carried].map((region) => ({
+    ...region,
+    stale: now.getTime() - Date.parse(region.timestamp) > maxAgeMs,
+  }));
+}
+
+function aggregateRegion(
+  region: string,
+  results: VisibilityResult[]
+): RegionStatus {
+  const usable = results.filter(
+    (r) => r.status === "ok" && r.visibilityScore !== null && r.weight > 0
+  );
+  const timestamp = results
+    .map((r) => r.timestamp)
+    .sort()
+    .at(-1) as string;
+  const locations = results.map(toLocationStatus);
+
+  if (usable.length === 0) {
+    const indeterminate = results.find((r) => r.status === "indeterminate");
+    return {
+      region,
+      status: indeterminate ? "indeterminate" : "error",
+      statusReason: indeterminate
+        ? indeterminate.statusReason
+        : results.map((r) => `${r.location}: ${r.statusReason}`).join("; "),
+      fogLevel: null,
+      visibilityScore: null,
+      timestamp,
+      landmarksVisible: 0,
+      totalLandmarks: 0,
+      landmarks: [],
+      locations,
+    };
+  }
+
+  const totalWeight = usable.reduce((sum, r) => sum + r.weight, 0);
+  const visibilityScore =
+    usable.reduce((sum, r) => sum + (r.visibilityScore as number) * r.weight, 0) /
+    totalWeight;
+  const visibilityRange = combineVisibilityRanges(
+    usable.flatMap((r) => (r.visibilityRange ? [r.visibilityRange] : []))
+  );
+  const fogCeiling = combineFogCeilings(
+    usable.flatMap((r) => (r.fogCeiling ? [r.fogCeiling] : []))
+  );
+
+  return {
+    region,
+    status: "ok",
+    fogLevel: getFogLevel(visibilityScore),
+    visibilityScore: Math.round(visibilityScore),
+    timestamp,
+    landmarksVisible: usable.reduce((sum, r) => sum + r.landmarksVisible, 0),
+    totalLandmarks: usable.reduce((sum, r) => sum + r.totalLandmarks, 0),
+    ...(visibilityRange && { visibilityRange }),
+    ...(fogCeiling && { fogCeiling }),
+    landmarks: usable.flatMap((r) => r.landmarkDetails),
+    locations,
+  };
+}
+
+function toLocationStatus(result: VisibilityResult): RegionLocationStatus {
+  return {
+    location: result.location,
+    weight: result.weight,
+    status: result.status,
+    ...(result.statusReason && { statusReason: result.statusReason }),
+    fogLevel: result.fogLevel,
+    visibilityScore: result.visibilityScore,
+    timestamp: result.timestamp,
+    sunElevation: result.sunElevation,
+    ...(result.cameraOffset && { cameraOffset: result.cameraOffset }),
+    ...(result.visibilityRange && { visibilityRange: result.visibilityRange }),
+    ...(result.fogCeiling && { fogCeiling: result.fogCeiling }),
+    ...(result.debugImage && { debugImage: result.debugImage }),
+    landmarks: result.landmarkDetails,
+  };
+}
@@ -0,0 +1,134 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { analyzeFogLevel } from "./fog-detector.js";
+import { aggregateRegions } from "./regions.js";
+import { DEFAULT_INTERVAL_MINUTES, toHistoricalReading } from "./history.js";
+import type { HistoricalReading, VisibilityResult } from "./types.js";
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp"]);
+// 2026-06-21T200005Z, 2026-06-21T20:00:05.123Z, 2026-06-21T1600, ...
+const FRAME_TIMESTAMP =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2})[:-]?(\d{2})(?:[:-]?(\d{2}))?(?:\.\d+)?Z?$/;
+
+// A stored frame to replay for one location
+export interface ReplayFrame {
+  location: string;
+  timestamp: string; // ISO, UTC
+  file: string;
+}
+
+export interface ReplayRange {
+  from: string; // YYYY-MM-DD, inclusive (UTC, like the history files)
+  to: string; // YYYY-MM-DD, inclusive
+  locations?: string[]; // Only replay these locations
+}
+
+/**
+ * Parse the capture time out of a frame's file or directory name.
+ * Times without a zone are taken as UTC. Null if it isn't a timestamp.
+ */
+export function parseFrameTimestamp(name: string): string | null {
+  const stem = IMAGE_EXTENSIONS.has(path.extname(name).toLowerCase())
+    ? path.basename(name, path.extname(name))
+    : name;
+  const match = FRAME_TIMESTAMP.exec(stem);
+  if (!match) return null;
+  const [, date, hour, minute, second = "00"] = match;
+  const time = new Date(`${date}T${hour}:${minute}:${second}Z`);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+/**
+ * Find the frames to replay under <framesDir>/<location>/. Each entry is
+ * either an image named by its capture time, or a directory named by it
+ * holding a frame.* image — the layout `npm run check -- --archive`
+ * writes. Entries outside the date range are skipped.
+ */
+export async function findReplayFrames(
+  framesDir: string,
+  range: ReplayRange
+): Promise<ReplayFrame[]> {
+  const start = `${range.from}T00:00:00.000Z`;
+  const end = `${range.to}T23:59:59.999Z`;
+  const frames: ReplayFrame[] = [];
+
+  for (const location of (await fs.readdir(framesDir)).sort()) {
+    if (range.locations && !range.locations.includes(location)) continue;
+    const locationDir = path.join(framesDir, location);
+    if (!(await fs.stat(locationDir)).isDirectory()) continue;
+
+    for (const entry of await fs.readdir(locationDir, { withFileTypes: true })) {
+      const timestamp = parseFrameTimestamp(entry.name);
+      if (!timestamp || timestamp < start || timestamp > end) continue;
+
+      let file: string | undefined;
+      if (entry.isDirectory()) {
+        const runFiles = await fs.readdir(path.join(locationDir, entry.name));
+        const frame = runFiles.find(
+          (f) =>
+            path.basename(f, path.extname(f)) === "frame" &&
+            IMAGE_EXTENSIONS.has(path.extname(f).toLowerCase())
+        );
+        if (frame) file = path.join(locationDir, entry.name, frame);
+      } else if (IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        file = path.join(locationDir, entry.name);
+      }
+      if (file) frames.push({ location, timestamp, file });
+    }
+  }
+  return frames.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Run stored frames back through analyzeFogLevel with the current configs
+ * and rebuild one history reading per `intervalMinutes` slot (hourly by
+ * default), the history's resolution. Within a slot each location
+ * contributes its latest frame, and the locations are combined into
+ * regions as a live run would. Frames are replayed in order so
+ * frozen-stream detection still sees each location's previous frame.
+ */
+export async function replayFrames(
+  frames: ReplayFrame[],
+  onResult?: (frame: ReplayFrame, result: VisibilityResult) => void,
+  intervalMinutes = DEFAULT_INTERVAL_MINUTES
+): Promise<HistoricalReading[]> {
+  // Intervals divide the hour, so slots of epoch time line up with UTC days
+  const slotMs = intervalMinutes * 60 * 1000;
+  const bySlot = new Map<number, Map<string, ReplayFrame>>();
+  for (const frame of frames) {
+    const slot = Math.floor(Date.parse(frame.timestamp) / slotMs);
+    const latest = bySlot.get(slot) ?? new Map<string, ReplayFrame>();
+    const current = latest.get(frame.location);
+    if (!current || frame.timestamp > current.timestamp) {
+      latest.set(frame.location, frame);
+    }
+    bySlot.set(slot, latest);
+  }
+
+  const previousHashes = new Map<string, string>();
+  const readings: HistoricalReading[] = [];
+
+  for (const slot of Array.from(bySlot.keys()).sort((a, b) => a - b)) {
+    const results: VisibilityResult[] = [];
+    for (const frame of bySlot.get(slot)!.values()) {
+      try {
+        const result = await analyzeFogLevel(frame.location, {
+          previousFrameHash: previousHashes.get(frame.location),
+          fetchImage: () => fs.readFile(frame.file),
+          capturedAt: new Date(frame.timestamp),
+        });
+        if (result.frameQuality) {
+          previousHashes.set(frame.location, result.frameQuality.hash);
+        }
+        onResult?.(frame, result);
+        results.push(result);
+      } catch (error) {
+        console.error(`  Failed to replay ${frame.location} at ${frame.timestamp}:`, error);
+      }
+    }
+    if (results.length > 0) {
+      readings.push(toHistoricalReading(aggregateRegions(results)));
+    }
+  }
+  return readings;
+}
@@ -1,10 +1,22 @@
 import sharp from "sharp";
 import fs from "node:fs/promises";
 import path from "node:path";
+import os from "node:os";
 import { fetchWebcamImage } from "./image-fetcher.js";
-import type { LocationConfig, WebcamSource } from "./types.js";
+import { resolveLocationCamera } from "./cameras.js";
+import {
+  ConfigValidationError,
+  validateLocationConfig,
+  type ConfigIssue,
+} from "./config-validation.js";
+import type {
+  LandmarkTemplate,
+  LightingCondition,
+  LocationConfig,
+  WebcamSource,
+} from "./types.js";
 
-const TEMPLATES_DIR = path.resolve(import.meta.dirname, "..", "templates");
+const PROJECT_ROOT = path.resolve(import.meta.dirname, "..");
 const LOCATIONS_DIR = path.resolve(
   import.meta.dirname,
   "..",
@@ -12,7 +24,7 @@ const LOCATIONS_DIR = path.resolve(
   "locations"
 );
 
-interface TemplateSetup {
+export interface TemplateSetup {
   name: string;
   x: number;
   y: number;
@@ -22,49 +34,183 @@ interface TemplateSetup {
 }
 
 /**
- * One-time setup: fetch a clear-day webcam image, crop landmark regions,
- * and save both the template images and a location config file.
+ * Parse a landmark box from the command line: "name:x,y,width,height" with
+ * an optional ":threshold", e.g. "gg-bridge-south-tower:400,260,80,160:0.55".
+ */
+export function parseLandmarkBox(spec: string): TemplateSetup {
+  const match = /^([a-z0-9][a-z0-9-]*):(\d+),(\d+),(\d+),(\d+)(?::([\d.]+))?$/.exec(spec);
+  if (!match) {
+    throw new Error(
+      `Invalid landmark "${spec}"; expected name:x,y,width,height[:threshold]`
+    );
+  }
+  const [, name, x, y, width, height, threshold] = match;
+  return {
+    name,
+    x: Number(x),
+    y: Number(y),
+    width: Number(width),
+    height: Number(height),
+    ...(threshold !== undefined && { threshold: Number(threshold) }),
+  };
+}
+
+/**
+ * Read landmark boxes from a JSON file holding an array of
+ * { name, x, y, width, height, threshold? }.
+ */
+export async function loadLandmarkBoxes(file: string): Promise<TemplateSetup[]> {
+  const boxes = JSON.parse(await fs.readFile(file, "utf-8")) as unknown;
+  if (!Array.isArray(boxes)) {
+    throw new Error(`${file} must contain an array of landmark boxes`);
+  }
+  for (const [i, box] of boxes.entries()) {
+    const missing = ["name", "x", "y", "width", "height"].filter(
+      (key) => box?.[key] === undefined
+    );
+    if (missing.length > 0) {
+      throw new Error(`${file}: landmark ${i} is missing ${missing.join(", ")}`);
+    }
+  }
+  return boxes as TemplateSetup[];
+}
+
+/**
+ * Whether data/locations/<location>.json already exists, so setup tools can
+ * refuse to overwrite calibrated thresholds without being asked.
+ */
+export async function locationConfigExists(location: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(LOCATIONS_DIR, `${location}.json`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Crop one landmark out of a frame, refusing boxes that extend past it
+ * rather than letting sharp fail with "bad extract area".
+ */
+async function cropTemplate(
+  frame: Buffer,
+  name: string,
+  box: { x: number; y: number; width: number; height: number },
+  templatePath: string
+): Promise<void> {
+  const { width = 0, height = 0 } = await sharp(frame).metadata();
+  if (box.x + box.width > width || box.y + box.height > height) {
+    throw new Error(
+      `Landmark "${name}" (${box.width}x${box.height} at ${box.x},${box.y}) ` +
+        `extends past the ${width}x${height} frame`
+    );
+  }
+
+  await sharp(frame)
+    .extract({ left: box.x, top: box.y, width: box.width, height: box.height })
+    .png()
+    .toFile(templatePath);
+}
+
+// A template to crop from the frame, at the path the config gives it
+interface TemplateCrop {
+  index: number; // Position in the config's landmarks, for issue paths
+  name: string;
+  region: LandmarkTemplate["region"];
+  templatePath: string; // As written in the config, e.g. "./templates/north/tower.png"
+}
+
+/**
+ * Write a location config and the templates it gains, but only once the
+ * config passes validation: every crop must fit the frame, and the config
+ * is validated with its new templates cropped to a scratch directory. If
+ * it has issues, nothing is written and a ConfigValidationError lists them.
+ */
+async function saveValidatedConfig(
+  config: LocationConfig,
+  frame: Buffer,
+  crops: TemplateCrop[]
+): Promise<void> {
+  const configFile = `data/locations/${config.location}.json`;
+
+  // Boxes must fit this frame, whatever the catalog says about the camera
+  const { width = 0, height = 0 } = await sharp(frame).metadata();
+  const outside: ConfigIssue[] = [];
+  for (const { index, region: box } of crops) {
+    if (box.x + box.width <= width && box.y + box.height <= height) continue;
+    outside.push({
+      path: `landmarks[${index}].region`,
+      message: `${box.width}x${box.height} at ${box.x},${box.y} extends past the ${width}x${height} frame`,
+    });
+  }
+  if (outside.length > 0) throw new ConfigValidationError(configFile, outside);
+
+  const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), "fog-setup-"));
+  try {
+    const staged = new Map<string, string>(); // Config template path → scratch file
+    for (const [i, crop] of crops.entries()) {
+      const stagedPath = path.join(stagingDir, `${i}.png`);
+      await cropTemplate(frame, crop.name, crop.region, stagedPath);
+      staged.set(crop.templatePath, stagedPath);
+    }
+    const restage = (templatePath: string) => staged.get(templatePath) ?? templatePath;
+    const pending: LocationConfig = {
+      ...config,
+      landmarks: config.landmarks.map((landmark) => ({
+        ...landmark,
+        templatePath: restage(landmark.templatePath),
+        ...(landmark.templates && {
+          templates: landmark.templates.map((t) => ({ ...t, templatePath: restage(t.templatePath) })),
+        }),
+      })),
+    };
+    const issues = await validateLocationConfig(pending, config.location);
+    if (issues.length > 0) throw new ConfigValidationError(configFile, issues);
+
+    for (const [templatePath, stagedPath] of staged) {
+      const target = path.join(PROJECT_ROOT, templatePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(stagedPath, target);
+    }
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+
+  await fs.mkdir(LOCATIONS_DIR, { recursive: true });
+  const configPath = path.join(LOCATIONS_DIR, `${config.location}.json`);
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2) + "\n");
+}
+
+/**
+ * One-time setup: fetch a clear-day webcam image (or use a saved `frame`),
+ * crop landmark regions, and save both the template images and a location
+ * config file. `camera` is an ID in data/cameras.json, or a source for
+ * cameras outside the catalog. The config is validated first; if it has
+ * issues, nothing is written and a ConfigValidationError lists them.
  */
 export async function createTemplateWithCoordinates(
-  source: WebcamSource,
+  camera: string | WebcamSource,
   location: string,
-  landmarks: TemplateSetup[]
+  region: string,
+  landmarks: TemplateSetup[],
+  frame?: Buffer
 ): Promise<void> {
   console.log(`Setting up templates for ${location}...`);
 
-  // Fetch a clear-day webcam image (supports direct URLs and HLS streams)
-  const imageBuffer = await fetchWebcamImage(source);
+  const cameraRef = typeof camera === "string" ? { camera } : { source: camera };
+  const { source } = await resolveLocationCamera({ location, ...cameraRef });
 
-  // Create directories
-  const locationTemplateDir = path.join(TEMPLATES_DIR, location);
-  await fs.mkdir(locationTemplateDir, { recursive: true });
-  await fs.mkdir(LOCATIONS_DIR, { recursive: true });
+  // Fetch a clear-day webcam image (supports direct URLs and HLS streams)
+  const imageBuffer = frame ?? (await fetchWebcamImage(source));
 
+  // Use relative paths from project root for portability
   const config: LocationConfig = {
     location,
-    source,
-    landmarks: [],
-  };
-
-  for (const landmark of landmarks) {
-    const templateFilename = `${landmark.name}.png`;
-    const templatePath = path.join(locationTemplateDir, templateFilename);
-
-    // Extract and save the template image
-    await sharp(imageBuffer)
-      .extract({
-        left: landmark.x,
-        top: landmark.y,
-        width: landmark.width,
-        height: landmark.height,
-      })
-      .png()
-      .toFile(templatePath);
-
-    // Use relative path from project root for portability
-    config.landmarks.push({
+    region,
+    ...cameraRef,
+    landmarks: landmarks.map((landmark) => ({
       name: landmark.name,
-      templatePath: `./templates/${location}/${templateFilename}`,
+      templatePath: `./templates/${location}/${landmark.name}.png`,
       region: {
         x: landmark.x,
         y: landmark.y,
@@ -72,36 +218,65 @@ export async function createTemplateWithCoordinates(
         height: landmark.height,
       },
       threshold: landmark.threshold ?? 0.7,
-    });
+    })),
+  };
 
-    console.log(
-      `  Created template for ${landmark.name} (${landmark.width}x${landmark.height} at ${landmark.x},${landmark.y})`
-    );
+  await saveValidatedConfig(
+    config,
+    imageBuffer,
+    config.landmarks.map((landmark, index) => ({ index, ...landmark }))
+  );
+  for (const { name, region: box } of config.landmarks) {
+    console.log(`  Created template for ${name} (${box.width}x${box.height} at ${box.x},${box.y})`);
   }
-
-  // Save config file
-  const configPath = path.join(LOCATIONS_DIR, `${location}.json`);
-  await fs.writeFile(configPath, JSON.stringify(config, null, 2) + "\n");
-
   console.log(`Saved config to data/locations/${location}.json`);
 }
 
-// When run directly, show usage instructions
-console.log("Template setup module loaded.");
-console.log("Usage: import { createTemplateWithCoordinates } from './setup-templates.js'");
-console.log("Then call createTemplateWithCoordinates(source, location, landmarks)");
-console.log("");
-console.log("Examples:");
-console.log(`  // Direct image URL
-  await createTemplateWithCoordinates(
-    { type: 'image', url: 'https://www.ocf.berkeley.edu/~thelawrence/images/newview.jpg' },
-    'berkeley',
-    [{ name: 'sf-skyline', x: 300, y: 200, width: 150, height: 100 }]
+/**
+ * Add lighting-specific templates (e.g. night) to an existing location.
+ * Fetches a frame from the configured source (or uses a saved `frame`),
+ * crops every landmark at its stored region, and records the new templates
+ * in the location config. Re-running for the same lighting replaces the
+ * previous templates. As in setup, the updated config is validated first
+ * and nothing is written if it has issues.
+ */
+export async function addLightingTemplates(
+  location: string,
+  lighting: LightingCondition,
+  thresholds: Record<string, number> = {},
+  frame?: Buffer
+): Promise<void> {
+  console.log(`Adding ${lighting} templates for ${location}...`);
+
+  const configPath = path.join(LOCATIONS_DIR, `${location}.json`);
+  const config: LocationConfig = JSON.parse(
+    await fs.readFile(configPath, "utf-8")
   );
 
-  // HLS stream (Salesforce Tower)
-  await createTemplateWithCoordinates(
-    { type: 'hls', url: 'https://...airspace-cdn.cbsivideo.com/.../master.m3u8' },
-    'salesforce-east',
-    [{ name: 'bay-bridge-tower', x: 400, y: 300, width: 100, height: 150 }]
-  );`);
+  const imageBuffer =
+    frame ?? (await fetchWebcamImage((await resolveLocationCamera(config)).source));
+
+  const crops: TemplateCrop[] = [];
+  for (const [index, landmark] of config.landmarks.entries()) {
+    const templatePath = `./templates/${location}/${landmark.name}-${lighting}.png`;
+    crops.push({ index, name: landmark.name, region: landmark.region, templatePath });
+
+    const templates = (landmark.templates ?? []).filter(
+      (t) => t.lighting !== lighting
+    );
+    templates.push({
+      lighting,
+      templatePath,
+      ...(thresholds[landmark.name] !== undefined && {
+        threshold: thresholds[landmark.name],
+      }),
+    });
+    landmark.templates = templates;
+  }
+
+  await saveValidatedConfig(config, imageBuffer, crops);
+  for (const { name } of crops) {
+    console.log(`  Created ${lighting} template for ${name}`);
+  }
+  console.log(`Updated data/locations/${location}.json`);
+}
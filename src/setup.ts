@@ -0,0 +1,142 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { guessSourceType, SOURCE_TYPES } from "./image-fetcher.js";
+import {
+  addLightingTemplates,
+  createTemplateWithCoordinates,
+  loadLandmarkBoxes,
+  locationConfigExists,
+  parseLandmarkBox,
+  type TemplateSetup,
+} from "./setup-templates.js";
+import type { LightingCondition, WebcamSource } from "./types.js";
+
+const USAGE = `Usage:
+  npm run setup -- (--camera <id> | --url <url> [--type image|hls|mjpeg|file]) --region <id>
+                   (--landmark <box>... | --landmarks <file>)
+                   [--location <name>] [--snapshot <file>] [--force]
+
+  npm run setup -- --location <name> --lighting night|twilight
+                   [--threshold <landmark>=<value>...] [--snapshot <file>]
+
+--camera takes an ID from data/cameras.json; --url takes an image, HLS or
+MJPEG URL, or a local image or directory of frames (relative to the
+project root). Unless --type is given it's guessed from the URL: .m3u8 is
+hls, .mjpg is mjpeg and a path is file. The location defaults to the
+camera ID. A landmark box is name:x,y,width,height[:threshold], e.g.
+
+  --landmark gg-bridge-south-tower:400,260,80,160:0.55
+
+--landmarks reads the same boxes from a JSON array of
+{ "name", "x", "y", "width", "height", "threshold"? }.
+
+--snapshot crops templates from a saved frame instead of fetching one.
+--lighting adds night or twilight templates to an existing location at its
+configured landmark regions.`;
+
+const LIGHTING: LightingCondition[] = ["day", "twilight", "night"];
+
+function resolveSource(values: {
+  camera?: string;
+  url?: string;
+  type?: string;
+}): string | WebcamSource {
+  if (values.camera && values.url) {
+    throw new Error("Pass either --camera or --url, not both");
+  }
+  if (values.camera) return values.camera;
+
+  const url = values.url!;
+  const type = (values.type ?? guessSourceType(url)) as WebcamSource["type"];
+  if (!SOURCE_TYPES.includes(type)) {
+    throw new Error(`Invalid --type "${type}"; expected ${SOURCE_TYPES.join(", ")}`);
+  }
+  return { type, url };
+}
+
+function parseThresholds(specs: string[]): Record<string, number> {
+  const thresholds: Record<string, number> = {};
+  for (const spec of specs) {
+    const [name, value] = spec.split("=");
+    // Number("") is 0, so an empty value would otherwise pass as a threshold
+    const threshold = value?.trim() ? Number(value) : NaN;
+    if (!name || !(threshold >= 0 && threshold <= 1)) {
+      throw new Error(`Invalid --threshold "${spec}"; expected <landmark>=<value between 0 and 1>`);
+    }
+    thresholds[name] = threshold;
+  }
+  return thresholds;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      camera: { type: "string" },
+      url: { type: "string" },
+      type: { type: "string" },
+      location: { type: "string" },
+      region: { type: "string" },
+      landmark: { type: "string", multiple: true, default: [] },
+      landmarks: { type: "string" },
+      snapshot: { type: "string" },
+      lighting: { type: "string" },
+      threshold: { type: "string", multiple: true, default: [] },
+      force: { type: "boolean", default: false },
+    },
+  });
+
+  const frame = values.snapshot ? await fs.readFile(path.resolve(values.snapshot)) : undefined;
+
+  if (values.lighting) {
+    if (!values.location) {
+      console.log(USAGE);
+      process.exit(1);
+    }
+    const lighting = values.lighting as LightingCondition;
+    if (!LIGHTING.includes(lighting)) {
+      throw new Error(`Invalid --lighting "${values.lighting}"; expected ${LIGHTING.join(", ")}`);
+    }
+    await addLightingTemplates(
+      values.location,
+      lighting,
+      parseThresholds(values.threshold),
+      frame
+    );
+    return;
+  }
+
+  if ((!values.camera && !values.url) || !values.region) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const camera = resolveSource(values);
+  const location = values.location ?? values.camera;
+  if (!location) {
+    throw new Error("--location is required with --url");
+  }
+
+  const boxes: TemplateSetup[] = [
+    ...(values.landmarks ? await loadLandmarkBoxes(path.resolve(values.landmarks)) : []),
+    ...values.landmark.map(parseLandmarkBox),
+  ];
+  if (boxes.length === 0) {
+    throw new Error("No landmarks given; pass --landmark or --landmarks");
+  }
+
+  if (!values.force && (await locationConfigExists(location))) {
+    throw new Error(
+      `data/locations/${location}.json already exists; pass --force to replace it ` +
+        `(its calibrated thresholds and templates will be lost)`
+    );
+  }
+
+  // Validates the config before writing it or any template
+  await createTemplateWithCoordinates(camera, location, values.region, boxes, frame);
+}
+
+main().catch((error) => {
+  console.error("Setup failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,204 @@
+import pixelmatch from "pixelmatch";
+import type { SimilarityMetric } from "./types.js";
+
+/**
+ * A single-channel 8-bit image, one byte per pixel in row-major order.
+ */
+export interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compares a live crop against a template of the same size. `rawScore` is
+ * the metric's native value; `similarity` maps it onto 0.0–1.0 so it can be
+ * checked against a landmark threshold regardless of metric.
+ */
+export type Comparator = (
+  live: GrayImage,
+  template: GrayImage
+) => { similarity: number; rawScore: number };
+
+// Below this standard deviation a crop is treated as featureless (e.g. fog)
+const FLAT_STDDEV = 1;
+
+// SSIM stabilizing constants for 8-bit images
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+
+/**
+ * Fraction of pixels pixelmatch considers the same. `rawScore` is the
+ * number of differing pixels.
+ */
+function comparePixelmatch(live: GrayImage, template: GrayImage) {
+  const diff = pixelmatch(
+    toRgba(live),
+    toRgba(template),
+    undefined,
+    live.width,
+    live.height,
+    { threshold: 0.1 }
+  );
+  return {
+    similarity: 1 - diff / (live.width * live.height),
+    rawScore: diff,
+  };
+}
+
+/**
+ * Mean structural similarity over sliding windows. Tolerates uniform
+ * brightness and contrast shifts, so haze that washes out colors but leaves
+ * edges intact still scores well. `rawScore` is SSIM in -1.0–1.0.
+ */
+function compareSsim(live: GrayImage, template: GrayImage) {
+  const { width, height } = live;
+  const windowWidth = Math.min(SSIM_WINDOW, width);
+  const windowHeight = Math.min(SSIM_WINDOW, height);
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + windowHeight <= height; top += SSIM_STEP) {
+    for (let left = 0; left + windowWidth <= width; left += SSIM_STEP) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < top + windowHeight; y++) {
+        for (let x = left; x < left + windowWidth; x++) {
+          const a = live.data[y * width + x];
+          const b = template.data[y * width + x];
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+      const n = windowWidth * windowHeight;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA ** 2 + meanB ** 2 + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  const ssim = windows > 0 ? total / windows : 0;
+  return { similarity: clamp01(ssim), rawScore: ssim };
+}
+
+/**
+ * Zero-mean normalized cross-correlation of pixel intensities. Invariant to
+ * brightness and contrast; `rawScore` is the correlation in -1.0–1.0.
+ */
+function compareNcc(live: GrayImage, template: GrayImage) {
+  const ncc = correlate(live.data, template.data);
+  return { similarity: clamp01(ncc), rawScore: ncc };
+}
+
+/**
+ * Normalized cross-correlation of Sobel gradient magnitudes. Compares
+ * outlines rather than shading, which survives haze and low sun better
+ * than raw intensities. `rawScore` is the correlation in -1.0–1.0.
+ */
+function compareEdges(live: GrayImage, template: GrayImage) {
+  const correlation = correlate(gradientMagnitude(live), gradientMagnitude(template));
+  return { similarity: clamp01(correlation), rawScore: correlation };
+}
+
+export const COMPARATORS: Record<SimilarityMetric, Comparator> = {
+  pixelmatch: comparePixelmatch,
+  ssim: compareSsim,
+  ncc: compareNcc,
+  edge: compareEdges,
+};
+
+/**
+ * Compare two equally sized grayscale images with the given metric.
+ */
+export function compareImages(
+  metric: SimilarityMetric,
+  live: GrayImage,
+  template: GrayImage
+): { similarity: number; rawScore: number } {
+  if (live.width !== template.width || live.height !== template.height) {
+    throw new Error(
+      `Image sizes do not match: ${live.width}x${live.height} vs ${template.width}x${template.height}`
+    );
+  }
+  const comparator = COMPARATORS[metric];
+  if (!comparator) {
+    throw new Error(`Unknown similarity metric: ${metric}`);
+  }
+  return comparator(live, template);
+}
+
+/**
+ * Pearson correlation of two equally sized sample arrays. Two featureless
+ * inputs correlate only if they have roughly the same level.
+ */
+function correlate(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = a.length;
+  let sumA = 0, sumB = 0;
+  for (let i = 0; i < n; i++) {
+    sumA += a[i];
+    sumB += b[i];
+  }
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+
+  let covariance = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+
+  const stdA = Math.sqrt(varA / n);
+  const stdB = Math.sqrt(varB / n);
+  if (stdA < FLAT_STDDEV || stdB < FLAT_STDDEV) {
+    const bothFlat = stdA < FLAT_STDDEV && stdB < FLAT_STDDEV;
+    return bothFlat && Math.abs(meanA - meanB) < 8 ? 1 : 0;
+  }
+  return covariance / Math.sqrt(varA * varB);
+}
+
+function gradientMagnitude(image: GrayImage): Float32Array {
+  const { data, width, height } = image;
+  const magnitude = new Float32Array(width * height);
+  const at = (x: number, y: number) =>
+    data[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      magnitude[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+  return magnitude;
+}
+
+function toRgba(image: GrayImage): Uint8Array {
+  const rgba = new Uint8Array(image.width * image.height * 4);
+  for (let i = 0; i < image.data.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = image.data[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,62 @@
+import type { Coordinates, LightingCondition } from "./types.js";
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J2000 = Date.UTC(2000, 0, 1, 12);
+
+/**
+ * Approximate camera position used when a location has no coordinates
+ * of its own (downtown San Francisco).
+ */
+export const SAN_FRANCISCO: Coordinates = {
+  latitude: 37.7897,
+  longitude: -122.3972,
+};
+
+/**
+ * Compute the sun's elevation above the horizon in degrees for a given
+ * instant and position. Uses the low-precision solar coordinates from the
+ * Astronomical Almanac, which are accurate to well under a degree —
+ * plenty for telling day from night.
+ */
+export function getSunElevation(date: Date, coords: Coordinates): number {
+  const d = (date.getTime() - J2000) / DAY_MS;
+
+  // Mean anomaly, mean longitude and ecliptic longitude of the sun
+  const g = (357.529 + 0.98560028 * d) * RAD;
+  const q = 280.459 + 0.98564736 * d;
+  const eclipticLongitude = (q + 1.915 * Math.sin(g) + 0.02 * Math.sin(2 * g)) * RAD;
+  const obliquity = (23.439 - 0.00000036 * d) * RAD;
+
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude)
+  );
+  const declination = Math.asin(
+    Math.sin(obliquity) * Math.sin(eclipticLongitude)
+  );
+
+  // Local sidereal time → hour angle
+  const gmstHours = 18.697374558 + 24.06570982441908 * d;
+  const localSiderealTime = (gmstHours * 15 + coords.longitude) * RAD;
+  const hourAngle = localSiderealTime - rightAscension;
+
+  const latitude = coords.latitude * RAD;
+  const elevation = Math.asin(
+    Math.sin(latitude) * Math.sin(declination) +
+      Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+
+  return Math.round((elevation / RAD) * 10) / 10;
+}
+
+/**
+ * Map a sun elevation to the lighting condition a template should match.
+ * Twilight spans civil twilight plus the low-sun hour either side of it,
+ * when colors and shadows differ most from midday.
+ */
+export function getLightingCondition(sunElevation: number): LightingCondition {
+  if (sunElevation >= 6) return "day";
+  if (sunElevation >= -6) return "twilight";
+  return "night";
+}
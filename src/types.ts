@@ -1,6 +1,31 @@
+export type LightingCondition = "day" | "twilight" | "night";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PixelOffset {
+  x: number;
+  y: number;
+}
+
+export interface DriftSearch {
+  radius: number; // Pixels to search around each landmark region
+  step?: number; // Stride of the coarse search pass, defaults to 2
+}
+
+export interface LightingTemplate {
+  lighting: LightingCondition;
+  templatePath: string;
+  threshold?: number; // Overrides the landmark threshold for this lighting
+}
+
+export type SimilarityMetric = "pixelmatch" | "ssim" | "ncc" | "edge";
+
 export interface LandmarkTemplate {
   name: string;
-  templatePath: string;
+  templatePath: string; // Clear-day template, used when no lighting-specific one applies
   region: {
     x: number;
     y: number;
@@ -8,27 +33,91 @@ export interface LandmarkTemplate {
     height: number;
   };
   threshold: number; // Similarity threshold (0.0 to 1.0)
+  metric?: SimilarityMetric; // How to compare against the template, defaults to "pixelmatch"
+  distanceKm?: number; // Distance from the camera; computed from coordinates if omitted
+  coordinates?: Coordinates; // Landmark position
+  elevationM?: number; // Height of the landmark's visible part above sea level
+  templates?: LightingTemplate[]; // Additional templates tagged by lighting condition
 }
 
 export type WebcamSource =
   | { type: "image"; url: string }
-  | { type: "hls"; url: string };
+  | { type: "hls"; url: string }
+  | { type: "mjpeg"; url: string } // Multipart JPEG stream; the first full frame is used
+  // A path (relative to the project root) or file:// URL naming an image, or
+  // a directory of frames whose newest image is used
+  | { type: "file"; url: string };
+
+export interface CameraInfo {
+  id: string;
+  name: string;
+  source: WebcamSource;
+  direction: string;
+  landmarks_visible: string[];
+  resolution: string; // e.g. "1280x720", prefixed with "~" when approximate
+}
 
 export interface LocationConfig {
   location: string;
   region: string; // Geographic region ID (e.g., "golden-gate", "downtown")
-  source: WebcamSource;
+  weight?: number; // Relative weight when several locations cover one region, defaults to 1
+  coordinates?: Coordinates; // Camera position, used for sun elevation
+  driftSearch?: DriftSearch; // Search around landmark regions to absorb camera drift
+  camera?: string; // Camera ID in data/cameras.json, which supplies the source URL
+  source?: WebcamSource; // Only for cameras that aren't in the catalog
   landmarks: LandmarkTemplate[];
 }
 
+// "indeterminate" readings were taken when there wasn't enough light to judge;
+// "error" readings had no usable frame (e.g. a black or frozen stream)
+export type ReadingStatus = "ok" | "indeterminate" | "error";
+
+// Visibility bracketed by landmark distances: at least minKm, less than maxKm
+export interface VisibilityRange {
+  minKm: number; // Farthest landmark still visible, 0 if none
+  maxKm: number | null; // Nearest obscured landmark beyond that, null if none
+  minMiles: number;
+  maxMiles: number | null;
+}
+
+// Fog base bracketed by landmark elevations: above minM, below maxM
+export interface FogCeiling {
+  minM: number | null; // Highest landmark still visible, null if none are
+  maxM: number | null; // Lowest obscured landmark above that, null if none
+  // "surface": fog down to the lowest landmark; "elevated": a layer above
+  // visible landmarks (e.g. a high marine layer); "none": nothing hidden by height
+  layer: "surface" | "elevated" | "none";
+}
+
+export interface FrameQuality {
+  width: number;
+  height: number;
+  brightness: number; // Mean luminance, 0-255
+  contrast: number; // Luminance standard deviation
+  blockiness: number; // Excess share of hard edges on 8px block boundaries, ~0 for clean frames
+  hash: string; // Fingerprint for spotting frozen streams
+}
+
 export interface VisibilityResult {
   location: string;
+  camera?: string; // Catalog camera ID, when the camera is in data/cameras.json
   region: string;
+  weight: number; // Relative weight within the region
+  status: ReadingStatus;
+  statusReason?: string; // Why the reading could not be judged
+  errorClass?: string; // For "error" readings: the fetch error's class, or "FrameRejected"
   landmarksVisible: number;
   totalLandmarks: number;
-  visibilityScore: number; // 0-100
-  fogLevel: FogLevel;
+  visibilityScore: number | null; // 0-100, null unless status is "ok"
+  fogLevel: FogLevel | null; // null unless status is "ok"
   timestamp: string;
+  sunElevation: number; // Degrees above the horizon at capture time
+  lighting: LightingCondition;
+  cameraOffset?: PixelOffset; // Median drift of visible landmarks, when drift search is enabled
+  visibilityRange?: VisibilityRange; // Present when landmarks have known distances
+  fogCeiling?: FogCeiling; // Present when landmarks have known elevations
+  frameQuality?: FrameQuality; // Absent when no frame could be fetched
+  debugImage?: string; // Annotated frame, when debug output is enabled
   landmarkDetails: LandmarkDetail[];
 }
 
@@ -36,10 +125,70 @@ export interface LandmarkDetail {
   name: string;
   visible: boolean;
   similarity: number;
+  lighting: LightingCondition; // Lighting of the template that was compared
+  metric: SimilarityMetric;
+  rawScore: number; // The metric's native score before mapping to similarity
+  offset?: PixelOffset; // Best-aligned position relative to the stored region
+  distanceKm?: number; // Distance from the camera, when known
+  elevationM?: number;
 }
 
 export type FogLevel = "clear" | "light" | "moderate" | "heavy";
 
+// One camera's contribution to a region reading
+export interface RegionLocationStatus {
+  location: string;
+  weight: number;
+  status: ReadingStatus;
+  statusReason?: string;
+  fogLevel: FogLevel | null;
+  visibilityScore: number | null;
+  timestamp: string;
+  sunElevation: number;
+  cameraOffset?: PixelOffset;
+  visibilityRange?: VisibilityRange;
+  fogCeiling?: FogCeiling;
+  debugImage?: string;
+  landmarks: LandmarkDetail[];
+}
+
+export interface RegionStatus {
+  region: string;
+  status: ReadingStatus;
+  statusReason?: string;
+  fogLevel: FogLevel | null;
+  visibilityScore: number | null; // Weighted across the region's usable cameras
+  timestamp: string; // Most recent contributing reading
+  landmarksVisible: number;
+  totalLandmarks: number;
+  visibilityRange?: VisibilityRange; // Combined across usable cameras
+  fogCeiling?: FogCeiling; // Combined across usable cameras
+  landmarks: LandmarkDetail[]; // From every usable camera
+  locations: RegionLocationStatus[];
+  prediction?: Prediction; // When the region will clear; present while it's foggy
+  stale?: boolean; // Set on published regions: the reading is older than the staleness limit
+}
+
+export type CameraHealthStatus = "up" | "down" | "unconfigured";
+
+export interface CameraError {
+  errorClass: string; // e.g. "HttpStatusError", "FetchTimeoutError", "FrameRejected"
+  message: string;
+  timestamp: string;
+}
+
+// One camera's fetch record across runs, published at api/cameras/<id>
+export interface CameraHealth {
+  camera: string; // Catalog ID, or the location name for cameras outside the catalog
+  name?: string; // Catalog name
+  status: CameraHealthStatus; // "unconfigured": in the catalog but no location uses it
+  locations: string[];
+  lastChecked: string | null;
+  lastSuccess: string | null; // Last run that got a usable frame
+  failureStreak: number; // Consecutive failed runs, 0 once a frame comes through
+  lastError?: CameraError; // Most recent failure, kept after the camera recovers
+}
+
 export interface FogObservation {
   timestamp: string;
   location: string;
@@ -59,8 +208,9 @@ export interface Prediction {
 export interface CurrentStatus {
   location: string;
   currentStatus: {
-    fogLevel: FogLevel;
-    visibilityScore: number;
+    status: ReadingStatus;
+    fogLevel: FogLevel | null;
+    visibilityScore: number | null;
     timestamp: string;
   };
   prediction: Prediction | null;
@@ -70,14 +220,66 @@ export interface HistoricalReading {
   timestamp: string;
   regions: {
     [regionId: string]: {
-      fogLevel: FogLevel;
-      visibilityScore: number;
+      status?: ReadingStatus; // Absent in readings recorded before it was tracked
+      statusReason?: string;
+      fogLevel: FogLevel | null;
+      visibilityScore: number | null;
       landmarksVisible: number;
       totalLandmarks: number;
+      visibilityRange?: VisibilityRange;
+      fogCeiling?: FogCeiling;
     };
   };
 }
 
+// A daily history file (api/history/YYYY-MM-DD, UTC). Files written before
+// sub-hourly history have no version and only `hours`.
 export interface HistoricalData {
-  hours: (HistoricalReading | null)[]; // 24-item array (indices 0-23), null for missing data
+  version?: number; // 2 for files with `readings`
+  intervalMinutes?: number; // Minutes per `readings` slot, a divisor of 60
+  readings?: (HistoricalReading | null)[]; // One slot per interval from 00:00 UTC, null for missing data
+  hours: (HistoricalReading | null)[]; // 24-item array (indices 0-23), null for missing data; the latest reading in each hour
+}
+
+// One hour of a San Francisco day in api/history/local/YYYY-MM-DD
+export interface LocalHourSlot {
+  hour: number; // 0-23, Pacific time; 1 appears twice on the day DST ends
+  start: string; // ISO 8601 (UTC) start of the hour
+  utcOffset: string; // e.g. "-07:00" during daylight time
+  reading: HistoricalReading | null;
+}
+
+export interface LocalHistoricalData {
+  date: string; // YYYY-MM-DD, Pacific time
+  timeZone: string; // "America/Los_Angeles"
+  hours: LocalHourSlot[]; // 24 slots; 23 on the day DST starts and 25 on the day it ends
+}
+
+// Share of usable readings at each fog level (0-1), out of `readings`
+export type FogFrequency = { readings: number } & Record<FogLevel, number>;
+
+export interface MonthClimatology {
+  month: number; // 1-12, Pacific time
+  frequency: FogFrequency; // The whole month
+  hours: FogFrequency[]; // 24 items, by Pacific hour of day
+}
+
+// One Pacific-time day of a region's hourly history
+export interface DayFogStats {
+  date: string; // YYYY-MM-DD, Pacific time
+  readings: number; // Usable hourly readings
+  foggyHours: number; // Readings with any fog (not "clear")
+  firstClearHour: number | null; // Pacific hour of the first clear reading
+  longestClearHours: number; // Longest run of consecutive clear readings
+}
+
+// api/climatology/<region>
+export interface RegionClimatology {
+  region: string;
+  startDate: string; // First and last Pacific dates with usable readings
+  endDate: string;
+  readings: number;
+  lastUpdated: string;
+  months: MonthClimatology[]; // 12 items, January first
+  days: DayFogStats[]; // Oldest first
 }
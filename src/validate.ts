@@ -0,0 +1,42 @@
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { formatConfigIssues, validateLocationFiles } from "./config-validation.js";
+
+const LOCATIONS_DIR = path.resolve(import.meta.dirname, "..", "data", "locations");
+
+/**
+ * Check every location config against data/location.schema.json and the
+ * template files it names, without fetching any frames. Exits non-zero if
+ * any config is invalid.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: "string", default: LOCATIONS_DIR },
+    },
+  });
+
+  const reports = await validateLocationFiles(path.resolve(values.dir));
+  if (reports.length === 0) {
+    console.log("No location configs found.");
+    return;
+  }
+
+  let invalid = 0;
+  for (const report of reports) {
+    if (report.issues.length === 0) {
+      console.log(`✓ ${report.file}`);
+    } else {
+      invalid++;
+      console.log(`✗ ${formatConfigIssues(report.file, report.issues)}`);
+    }
+  }
+
+  console.log(`\n${reports.length - invalid}/${reports.length} config(s) valid`);
+  if (invalid > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Validation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+import type {
+  Coordinates,
+  LandmarkTemplate,
+  VisibilityRange,
+} from "./types.js";
+
+const EARTH_RADIUS_KM = 6371;
+const MILES_PER_KM = 0.621371;
+
+/**
+ * Great-circle distance between two points in kilometers.
+ */
+export function haversineKm(a: Coordinates, b: Coordinates): number {
+  const rad = Math.PI / 180;
+  const dLat = (b.latitude - a.latitude) * rad;
+  const dLon = (b.longitude - a.longitude) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.latitude * rad) * Math.cos(b.latitude * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Distance from the camera to a landmark: the configured `distanceKm` if
+ * set, otherwise computed from the landmark's and camera's coordinates.
+ */
+export function landmarkDistanceKm(
+  landmark: LandmarkTemplate,
+  camera: Coordinates | undefined
+): number | undefined {
+  if (landmark.distanceKm !== undefined) return landmark.distanceKm;
+  if (landmark.coordinates && camera) {
+    return Math.round(haversineKm(camera, landmark.coordinates) * 100) / 100;
+  }
+  return undefined;
+}
+
+/**
+ * Bracket the visibility distance between the farthest landmark still
+ * visible and the nearest obscured landmark beyond it — the same way an
+ * observer reports visibility from known markers. Landmarks without a
+ * distance are ignored; returns undefined if none have one.
+ */
+export function estimateVisibilityRange(
+  landmarks: { visible: boolean; distanceKm?: number }[]
+): VisibilityRange | undefined {
+  const ranged = landmarks.filter(
+    (l): l is { visible: boolean; distanceKm: number } => l.distanceKm !== undefined
+  );
+  if (ranged.length === 0) return undefined;
+
+  const minKm = Math.max(0, ...ranged.filter((l) => l.visible).map((l) => l.distanceKm));
+  const beyond = ranged
+    .filter((l) => !l.visible && l.distanceKm > minKm)
+    .map((l) => l.distanceKm);
+  const maxKm = beyond.length > 0 ? Math.min(...beyond) : null;
+
+  return toRange(minKm, maxKm);
+}
+
+/**
+ * Combine the ranges seen by several cameras in one region. Any camera
+ * seeing a landmark proves at least that much visibility; the tightest
+ * upper bound that doesn't contradict it is kept.
+ */
+export function combineVisibilityRanges(
+  ranges: VisibilityRange[]
+): VisibilityRange | undefined {
+  if (ranges.length === 0) return undefined;
+  const minKm = Math.max(...ranges.map((r) => r.minKm));
+  const upper = ranges
+    .map((r) => r.maxKm)
+    .filter((km): km is number => km !== null && km > minKm);
+  return toRange(minKm, upper.length > 0 ? Math.min(...upper) : null);
+}
+
+function toRange(minKm: number, maxKm: number | null): VisibilityRange {
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    minKm: round(minKm),
+    maxKm: maxKm === null ? null : round(maxKm),
+    minMiles: round(minKm * MILES_PER_KM),
+    maxMiles: maxKm === null ? null : round(maxKm * MILES_PER_KM),
+  };
+}